@@ -1,5 +1,10 @@
 import { type APIRequestContext, type Page } from "playwright";
 import { loadConfig } from "shared/config";
+import { encodeQuery } from "shared/query-encoding";
+
+import { api as routeCollection, type ApiRoutes } from "../packages/backend/src/api.js";
+import type { CallOptions, HasRequired, ResponseOf } from "../packages/backend/src/lib/caller.js";
+import { checkResponse, findRoute } from "../packages/backend/src/lib/contract.js";
 
 const BASE = `http://localhost:${loadConfig().edge.devPort}`;
 
@@ -24,34 +29,57 @@ export type Scenario = (ctx: {
 // scenario needs explicit per-call control over which cookie / bearer is
 // sent — for example, an auth flow that tests "no cookie" and "stale
 // cookie" cases the same context would otherwise auto-fill.
+//
+// Calls are typed against the backend's `ApiRoutes`, so a scenario that
+// calls a removed route, or reads a field a response no longer has, fails
+// `./scripts/e2e_build_types.ts` instead of failing at runtime.
 
-export type JsonInput = string | number | boolean | null | undefined | JsonInput[] | { [k: string]: JsonInput };
+type ErrorOf<R> = R extends { error: infer E } ? E : never;
 
-interface ApiResponse<T> { status: number; body: T; setCookie: string | null }
+/** `ok` narrows `body` to the route's response or to its error envelopes. */
+export type ApiResponse<R> = { status: number; setCookie: string | null } & (
+  | { ok: true; body: ResponseOf<R> }
+  | { ok: false; body: ErrorOf<R> }
+);
 
-interface ApiOpts {
-  body?: JsonInput;
-  headers?: Record<string, string>;
+type ApiOpts<R> = CallOptions<R> & {
   /** Accepts `null` so callers can pass `response.headers.get("set-cookie")` directly. */
   cookie?: string | null;
   bearer?: string;
-}
+};
+
+type ApiArgs<R> = HasRequired<R> extends true ? [opts: ApiOpts<R>] : [opts?: ApiOpts<R>];
+
+export async function api<P extends keyof ApiRoutes, M extends keyof ApiRoutes[P] & string>(
+  path: P,
+  method: M,
+  ...[opts]: ApiArgs<ApiRoutes[P][M]>
+): Promise<ApiResponse<ApiRoutes[P][M]>> {
+  const { params, query, body, headers: extraHeaders, cookie, bearer } = (opts ?? {}) as {
+    params?: Record<string, unknown>;
+    query?: Record<string, unknown>;
+    body?: unknown;
+    headers?: Record<string, string>;
+    cookie?: string | null;
+    bearer?: string;
+  };
 
-export async function api<T>(method: string, path: string, opts: ApiOpts = {}): Promise<ApiResponse<T>> {
-  // `Origin` defaults to BASE so state-changing requests pass better-auth's
-  // CSRF check. node `fetch` sends no Origin by default; setting it lets
-  // harness traffic look like real same-origin requests.
+  // `Origin` defaults to BASE. node `fetch` sends no Origin by default;
+  // setting it lets harness traffic look like real same-origin requests.
   const headers: Record<string, string> = {
     "Content-Type": "application/json",
     "Origin": BASE,
-    ...opts.headers,
+    ...extraHeaders,
   };
-  if (opts.cookie) headers["Cookie"] = opts.cookie;
-  if (opts.bearer) headers["Authorization"] = `Bearer ${opts.bearer}`;
-  const res = await fetch(`${BASE}${path}`, {
+  if (cookie) headers["Cookie"] = cookie;
+  if (bearer) headers["Authorization"] = `Bearer ${bearer}`;
+
+  const urlPath = path.replace(/:(\w+)/g, (_, key: string) => encodeURIComponent(String(params?.[key])));
+  const qs = query ? encodeQuery(query) : "";
+  const res = await fetch(`${BASE}${urlPath}${qs ? `?${qs}` : ""}`, {
     method,
     headers,
-    body: opts.body !== undefined ? JSON.stringify(opts.body) : undefined,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
   });
   const text = await res.text();
   let parsed: unknown = text;
@@ -60,12 +88,55 @@ export async function api<T>(method: string, path: string, opts: ApiOpts = {}):
   } catch {
     /* leave as raw text — non-JSON 5xx etc. */
   }
-  return { status: res.status, body: parsed as T, setCookie: res.headers.get("set-cookie") };
+
+  if (contractMode()) assertContract(method, urlPath, res.status, parsed);
+  return { ok: res.ok, status: res.status, body: parsed, setCookie: res.headers.get("set-cookie") } as ApiResponse<ApiRoutes[P][M]>;
+}
+
+// ─── Contract mode (`npm run e2e <name> -- --contract`) ───────────────
+//
+// Checks every backend response a scenario sees — through `api()` and the
+// page's own `/api/*` requests — against the route's response schema and
+// declared errors (see `checkResponse` in packages/backend/src/lib/contract.ts).
+
+export function contractMode(): boolean {
+  return process.env.E2E_CONTRACT === "1";
+}
+
+function assertContract(method: string, path: string, status: number, body: unknown): void {
+  const problems = checkResponse(routeCollection, { method, path }, { status, body });
+  if (problems.length > 0) throw new Error(`contract violation:\n${problems.join("\n")}`);
+}
+
+/**
+ * Check the page's `/api/*` JSON responses as they arrive. Call the returned
+ * function after the scenario: it throws if any response broke its route's
+ * contract. Requests to paths no route declares (auth provider callbacks
+ * etc.) are left alone.
+ */
+export function watchContract(page: Page): () => Promise<void> {
+  const checks: Promise<string[]>[] = [];
+  page.on("response", (res) => {
+    const { pathname } = new URL(res.url());
+    const method = res.request().method();
+    if (!pathname.startsWith("/api/") || !findRoute(routeCollection, method, pathname)) return;
+    const contentType = res.headers()["content-type"] as string | undefined; // absent on 204s
+    if (!contentType?.includes("application/json")) return;
+    checks.push(res.json().then(
+      (body: unknown) => checkResponse(routeCollection, { method, path: pathname }, { status: res.status(), body }),
+      () => [], // body gone with a navigation; nothing to check
+    ));
+  });
+  return async () => {
+    const problems = (await Promise.all(checks)).flat();
+    if (problems.length > 0) throw new Error(`contract violation:\n${problems.join("\n")}`);
+  };
 }
 
+/** Message of the backend's `{ code, message }` error envelope, or "" for anything else. */
 export function readError(body: unknown): string {
-  if (typeof body === "object" && body !== null && "error" in body && typeof body.error === "string") {
-    return body.error;
+  if (typeof body === "object" && body !== null && "message" in body && typeof body.message === "string") {
+    return body.message;
   }
   return "";
 }
@@ -76,7 +147,7 @@ export function readError(body: unknown): string {
 // scenarios. For scenarios with many independent checks, wrap the body in
 // `harness(async (ctx) => { ... })` to get per-step pass/fail logging, a
 // summary at the end, and `stepOrExit` for "subsequent steps depend on
-// this." See `e2e/echo.ts` for the plain pattern; see CLAUDE.md for the
+// this." See `e2e/health.ts` for the plain pattern; see CLAUDE.md for the
 // harness pattern.
 
 interface Step { name: string; ok: boolean; detail?: string }
@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+
+import { api, type Scenario } from "./_helpers.js";
+
+// Needs the backend running with AUTH_FAKE_PROVIDER=true
+const scenario: Scenario = async ({ page, request }) => {
+  const signedOut = await api("/api/auth/session", "GET");
+  assert.equal(signedOut.status, 200);
+  assert.equal(signedOut.body, null);
+  console.log("  signed out: no session");
+
+  await page.goto("/api/auth/sign-in/fake?loginHint=e2e@example.com&callbackURL=/");
+  assert.equal(new URL(page.url()).pathname, "/");
+
+  const session = await request.get("/api/auth/session");
+  assert.equal(session.status(), 200);
+  assert.equal((await session.json() as { user: { email: string } }).user.email, "e2e@example.com");
+  console.log("  signed in through the fake provider: ok");
+
+  await request.post("/api/auth/sign-out");
+  assert.equal(await (await request.get("/api/auth/session")).json(), null);
+  console.log("  signed out: ok");
+};
+
+export default scenario;
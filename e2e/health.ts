@@ -0,0 +1,18 @@
+import assert from "node:assert/strict";
+
+import { api, type Scenario } from "./_helpers.js";
+
+const scenario: Scenario = async ({ page }) => {
+  const health = await api("/api/health", "GET");
+  assert.equal(health.status, 200);
+  if (!health.ok) throw new Error(`GET /api/health failed: ${health.body.message}`);
+  assert.equal(health.body.status, "ok");
+  assert.ok(Math.abs(Date.now() - health.body.timestamp) < 60_000, "timestamp should be current");
+  console.log("  GET /api/health: ok");
+
+  await page.goto("/");
+  console.log(`  title: ${await page.title()}`);
+  await page.screenshot({ path: ".tmp/e2e-health-home.png", fullPage: true });
+};
+
+export default scenario;
@@ -0,0 +1,20 @@
+#!/usr/bin/env -S node --import tsx
+import { mkdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { parseArgs } from "node:util";
+
+import { api, apiInfo } from "../src/api.js";
+import { generateOpenApi } from "../src/lib/openapi.js";
+
+const ROOT = path.resolve(import.meta.dirname, "..");
+
+const { values } = parseArgs({
+  options: {
+    out: { type: "string", default: "dist/openapi.json" },
+  },
+});
+
+const outFile = path.resolve(ROOT, values.out);
+mkdirSync(path.dirname(outFile), { recursive: true });
+writeFileSync(outFile, JSON.stringify(generateOpenApi(api, apiInfo), null, 2) + "\n");
+console.log(`Wrote ${path.relative(process.cwd(), outFile)}`);
@@ -1,5 +1,6 @@
 #!/usr/bin/env -S node --import tsx
 import { execSync } from "node:child_process";
+import { randomBytes } from "node:crypto";
 import path from "node:path";
 import { parseArgs } from "node:util";
 
@@ -20,6 +21,7 @@ function main() {
   build();
 
   const config = loadConfig();
+  if (!envVars.AUTH_SECRET) envVars.AUTH_SECRET = authSecret(config);
   const stackName = synthesizeStack(config, name, envVars);
 
   deploy(stackName);
@@ -88,6 +90,27 @@ function build(): void {
   execSync("./scripts/build.ts", { stdio: "inherit", cwd: ROOT });
 }
 
+// Signs sessions; unless the env file sets one, every deployment of the project shares one kept in SSM
+function authSecret(config: ReturnType<typeof loadConfig>): string {
+  const ssmPath = SSMParameters.authSecretName({ project: config.project });
+  try {
+    return execSync(
+      `aws ssm get-parameter --name "${ssmPath}" --with-decryption --query Parameter.Value --output text --region ${config.ssm.region}`,
+      { encoding: "utf-8", stdio: ["ignore", "pipe", "pipe"] }
+    ).trim();
+  } catch (e) {
+    if (!String((e as { stderr?: unknown }).stderr).includes("ParameterNotFound")) throw e;
+  }
+
+  console.log(`Creating auth secret: ${ssmPath}`);
+  const secret = randomBytes(32).toString("base64url");
+  execSync(
+    `aws ssm put-parameter --name "${ssmPath}" --value "${secret}" --type SecureString --region ${config.ssm.region}`,
+    { stdio: "inherit" }
+  );
+  return secret;
+}
+
 function synthesizeStack(
   config: ReturnType<typeof loadConfig>,
   name: string,
@@ -101,6 +124,7 @@ function synthesizeStack(
   const stack = new BackendStack(app, {
     project: config.project,
     name,
+    ssmRegion: config.ssm.region,
     envVars,
     env: {
       account: process.env.CDK_DEFAULT_ACCOUNT,
@@ -1,11 +1,14 @@
 import path from "node:path";
 
 import * as cdk from "aws-cdk-lib";
+import * as dynamodb from "aws-cdk-lib/aws-dynamodb";
 import * as events from "aws-cdk-lib/aws-events";
 import * as targets from "aws-cdk-lib/aws-events-targets";
+import * as iam from "aws-cdk-lib/aws-iam";
 import * as lambda from "aws-cdk-lib/aws-lambda";
 import * as logs from "aws-cdk-lib/aws-logs";
 import { Construct } from "constructs";
+import * as SSMParameters from "shared/ssm-parameters";
 
 const ROOT = path.resolve(import.meta.dirname, "../..");
 
@@ -17,6 +20,7 @@ interface BackendStackId {
 interface BackendStackProps extends cdk.StackProps {
   project: string;
   name: string;
+  ssmRegion: string;
   envVars: Record<string, string>;
   prewarmLambda?: boolean;
 }
@@ -36,6 +40,17 @@ export class BackendStack extends cdk.Stack {
 
     const functionName = BackendStack.functionName({ project: props.project, name: props.name });
 
+    // Rate limit counters, one item per client and window, expired by TTL
+    const rateLimitTable = new dynamodb.Table(this, "RateLimits", {
+      partitionKey: { name: "pk", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: "expiresAt",
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    // Created by the edge deploy; requests without it are rejected, see src/middleware/origin.ts
+    const originSecretName = SSMParameters.originSecretName({ project: props.project });
+
     const fn = new lambda.Function(this, "Handler", {
       functionName,
       runtime: lambda.Runtime.NODEJS_24_X,
@@ -49,10 +64,21 @@ export class BackendStack extends cdk.Stack {
       }),
       environment: {
         NODE_ENV: "production",
+        AUTH_COOKIE_PREFIX: props.project,
+        RATE_LIMIT_TABLE: rateLimitTable.tableName,
+        ORIGIN_SECRET_PARAMETER: originSecretName,
+        SSM_REGION: props.ssmRegion,
         ...props.envVars,
       },
     });
 
+    rateLimitTable.grantReadWriteData(fn);
+    fn.addToRolePolicy(new iam.PolicyStatement({
+      actions: ["ssm:GetParameter"],
+      resources: [`arn:aws:ssm:${props.ssmRegion}:${this.account}:parameter${originSecretName}`],
+    }));
+
+    // Reachable by anyone, but the app rejects requests without the origin secret CloudFront adds
     const fnUrl = fn.addFunctionUrl({
       authType: lambda.FunctionUrlAuthType.NONE,
       invokeMode: lambda.InvokeMode.RESPONSE_STREAM,
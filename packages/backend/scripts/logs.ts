@@ -4,6 +4,7 @@ import { parseArgs } from "node:util";
 import { sanitizeBranchName } from "shared/branch";
 import { askConfirmation, parseDuration, sleep } from "shared/cli-utils";
 import { loadConfig } from "shared/config";
+import { formatLogEntry, isLogLevel, type LogFilter, logFilterPattern, type LogLevel, parseLogEntry } from "shared/logs";
 
 import { CloudWatchLogsClient, FilterLogEventsCommand, ResourceNotFoundException } from "@aws-sdk/client-cloudwatch-logs";
 
@@ -16,25 +17,29 @@ interface CliArgs {
   name: string;
   startTime: number;
   tail: boolean;
+  filter: LogFilter;
 }
 
 async function main() {
-  const { name, startTime, tail } = parseCliArgs();
+  const { name, startTime, tail, filter } = parseCliArgs();
   const config = loadConfig();
   const region = config.backend.region;
   const functionName = BackendStack.functionName({ project: config.project, name });
 
   console.log(`${tail ? "Tailing" : "Fetching"} logs for ${functionName}...\n`);
-  await fetchLogs(`/aws/lambda/${functionName}`, region, startTime, tail);
+  await fetchLogs(`/aws/lambda/${functionName}`, region, startTime, tail, filter);
 }
 
 function parseCliArgs(): CliArgs {
   const { values } = parseArgs({
     options: {
-      name: { type: "string", short: "n" },
-      startTime: { type: "string", short: "s" },
-      tail: { type: "boolean", short: "t" },
-      help: { type: "boolean", short: "h" },
+      "name": { type: "string", short: "n" },
+      "startTime": { type: "string", short: "s" },
+      "tail": { type: "boolean", short: "t" },
+      "request-id": { type: "string", short: "i" },
+      "level": { type: "string", short: "l" },
+      "route": { type: "string" },
+      "help": { type: "boolean", short: "h" },
     },
     strict: true,
   });
@@ -51,6 +56,9 @@ Options:
                           Format: <number><unit> where unit is s/m/h/d
                           Examples: 30s, 5m, 1h, 7d
   -t, --tail              Keep tailing logs (default: fetch once and exit)
+  -i, --request-id <id>   Only entries of one request (its X-Request-Id response header)
+  -l, --level <level>     Only entries at this level or above: debug | info | warn | error
+      --route <pattern>   Only entries of one route, e.g. "/api/gardens/:id" (* matches anything)
   -h, --help              Show this help message
 
 Examples:
@@ -58,6 +66,8 @@ Examples:
   ./packages/backend/scripts/logs.ts -n main -t               # Last 1 minute, keep tailing
   ./packages/backend/scripts/logs.ts -n main -s 30m           # Last 30 minutes, exit
   ./packages/backend/scripts/logs.ts -n main -s 1d -t         # Last 1 day, keep tailing
+  ./packages/backend/scripts/logs.ts -n main -s 1h -l error    # Errors in the last hour
+  ./packages/backend/scripts/logs.ts -n main -s 1d -i <id>     # One request
 `);
     process.exit(0);
   }
@@ -67,6 +77,11 @@ Examples:
     process.exit(1);
   }
 
+  if (values.level && !isLogLevel(values.level)) {
+    console.error("Error: --level must be debug, info, warn or error");
+    process.exit(1);
+  }
+
   const sanitized = sanitizeBranchName(values.name);
   if (!sanitized) {
     console.error(`Error: invalid branch name "${values.name}"`);
@@ -77,19 +92,21 @@ Examples:
     name: sanitized,
     startTime: parseDuration(values.startTime ?? "1m"),
     tail: values.tail ?? false,
+    filter: { requestId: values["request-id"], level: values.level as LogLevel | undefined, route: values.route },
   };
 }
 
-async function fetchLogs(logGroupName: string, region: string, startTime: number, tail: boolean): Promise<void> {
+async function fetchLogs(logGroupName: string, region: string, startTime: number, tail: boolean, filter: LogFilter): Promise<void> {
   const logs = new CloudWatchLogsClient({ region });
   let totalEvents = 0;
   let askedConfirmation = false;
   let nextToken: string | undefined;
+  const filterPattern = logFilterPattern(filter);
 
   while (true) {
     try {
       const response = await logs.send(
-        new FilterLogEventsCommand({ logGroupName, startTime, nextToken, limit: FETCH_LIMIT })
+        new FilterLogEventsCommand({ logGroupName, startTime, nextToken, limit: FETCH_LIMIT, filterPattern })
       );
 
       const events = response.events ?? [];
@@ -97,7 +114,8 @@ async function fetchLogs(logGroupName: string, region: string, startTime: number
       for (const event of events) {
         const ts = new Date(event.timestamp!).toISOString();
         const msg = event.message?.trimEnd() ?? "";
-        console.log(`${ts}  ${msg}`);
+        const entry = parseLogEntry(msg);
+        console.log(`${ts}  ${entry ? formatLogEntry(entry) : msg}`);
         startTime = event.timestamp! + 1;
       }
 
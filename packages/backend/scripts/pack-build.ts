@@ -5,6 +5,7 @@ import path from "node:path";
 
 const ROOT = path.resolve(import.meta.dirname, "..");
 const DIST = path.join(ROOT, "dist");
+const SHARED = path.resolve(ROOT, "../shared");
 
 function main() {
   // Clean dist
@@ -15,6 +16,8 @@ function main() {
   console.log("Transpiling TypeScript...");
   execSync("npx tsc --outDir dist", { cwd: ROOT, stdio: "inherit" });
 
+  const sharedModules = transpileShared();
+
   // Copy package.json with only production dependencies
   const pkg = JSON.parse(fs.readFileSync(path.join(ROOT, "package.json"), "utf-8")) as {
     name: string;
@@ -26,10 +29,40 @@ function main() {
     name: pkg.name,
     version: pkg.version,
     type: pkg.type,
-    dependencies: pkg.dependencies,
+    dependencies: sharedModules.length > 0 ? { ...pkg.dependencies, shared: "file:./shared" } : pkg.dependencies,
   }, null, 2));
 
   console.log("Pack build complete");
 }
 
+/**
+ * The shared package is TypeScript the Lambda cannot load, so the modules the
+ * backend imports are transpiled into dist/shared, which pack-install copies
+ * into node_modules as the "shared" dependency.
+ */
+function transpileShared(): string[] {
+  const modules = new Set<string>();
+  for (const file of fs.readdirSync(DIST, { recursive: true, encoding: "utf-8" })) {
+    if (!file.endsWith(".js")) continue;
+    for (const match of fs.readFileSync(path.join(DIST, file), "utf-8").matchAll(/from "shared\/([\w-]+)"/g)) {
+      modules.add(match[1]);
+    }
+  }
+  if (modules.size === 0) return [];
+
+  console.log(`Transpiling shared: ${[...modules].join(", ")}`);
+  const files = [...modules].map((name) => path.join(SHARED, "src", `${name}.ts`));
+  execSync(
+    `npx tsc --outDir dist/shared --rootDir ${path.join(SHARED, "src")} --module NodeNext --moduleResolution NodeNext --target ES2022 --skipLibCheck ${files.join(" ")}`,
+    { cwd: ROOT, stdio: "inherit" }
+  );
+  fs.writeFileSync(path.join(DIST, "shared/package.json"), JSON.stringify({
+    name: "shared",
+    version: "0.1.0",
+    type: "module",
+    exports: { "./*": "./*.js" },
+  }, null, 2));
+  return [...modules];
+}
+
 main();
@@ -7,7 +7,8 @@ const DIST = path.join(ROOT, "dist");
 
 function main() {
   console.log("Installing dependencies for linux-x64...");
-  execSync("npm install --os=linux --cpu=x64 --omit=dev --force", {
+  // --install-links copies the file: dependency on dist/shared instead of linking it
+  execSync("npm install --os=linux --cpu=x64 --omit=dev --force --install-links", {
     cwd: DIST,
     stdio: "inherit",
   });
@@ -0,0 +1,19 @@
+#!/usr/bin/env -S node --import tsx
+import { api } from "../src/api.js";
+import { describeAccess } from "../src/lib/policy.js";
+import { requireSession } from "../src/middleware/session.js";
+
+// Prints who may call each route, for reviewing authorization changes
+const rows = describeAccess(api, requireSession).map((row) => [
+  `${row.method} ${row.path}`,
+  row.session ? "session" : "public",
+  row.policies.join(", ") || "-",
+]);
+
+const table = [["Route", "Access", "Policies"], ...rows];
+const widths = table[0].map((_, column) => Math.max(...table.map((row) => row[column].length)));
+const format = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd();
+
+console.log(format(table[0]));
+console.log(format(widths.map((width) => "-".repeat(width))));
+for (const row of rows) console.log(format(row));
@@ -4,15 +4,37 @@ import path from "node:path";
 
 import { loadConfig } from "shared/config";
 import { loadAndValidateEnv } from "shared/env-parser";
+import { formatLogEntry } from "shared/logs";
+import { devOriginSecret } from "shared/origin-secret";
 
 import { serve } from "@hono/node-server";
 
+import { setLogWriter } from "../src/lib/logger.js";
+import { createTaskQueue } from "../src/lib/wait-until.js";
+
 // Validate env vars (already loaded by with-env.sh)
 loadAndValidateEnv(path.join(import.meta.dirname, "../src/env.d.ts"));
 
-const { backend } = loadConfig();
+const config = loadConfig();
+const { project, dev, backend } = config;
+
+// Per worktree, so two checkouts on localhost keep separate sessions
+process.env.AUTH_COOKIE_PREFIX ??= `${project}-${dev.worktree}`;
+// Like the deployed backend, only accept requests through the edge proxy
+process.env.ORIGIN_SECRET ??= devOriginSecret(config);
+
+// One readable line per entry instead of JSON
+setLogWriter((entry) => console.log(formatLogEntry(entry)));
 
 const { app } = await import("../src/index.js");
 
-serve({ fetch: app.fetch, port: backend.devPort });
+serve({
+  // Like the Lambda handler, run ctx.waitUntil tasks once the response is sent
+  fetch: (request, env) => {
+    const tasks = createTaskQueue();
+    env.outgoing.once("close", () => void tasks.settle());
+    return tasks.run(() => app.fetch(request, env));
+  },
+  port: backend.devPort,
+});
 console.log(`Backend running on http://localhost:${backend.devPort}`);
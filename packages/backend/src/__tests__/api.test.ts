@@ -0,0 +1,14 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+
+import { api } from "../api.js";
+import { createCaller } from "../lib/caller.js";
+
+describe("api", () => {
+  const caller = createCaller(api);
+
+  it("reports health", async () => {
+    const health = await caller.fetch("/api/health", "GET");
+    assert.strictEqual(health.status, "ok");
+  });
+});
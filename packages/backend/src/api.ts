@@ -1,9 +1,13 @@
 import { routes } from "./lib/app-context.js";
 import type { ExtractRoutes } from "./lib/route.js";
+import { routes as authRoutes } from "./routes/auth.js";
 import { route as healthRoute } from "./routes/health.js";
 
 export const api = routes(
   healthRoute,
+  authRoutes,
 );
 
+export const apiInfo = { title: "kurt-archive", version: "0.1.0" };
+
 export type ApiRoutes = ExtractRoutes<typeof api.routes>;
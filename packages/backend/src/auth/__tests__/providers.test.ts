@@ -0,0 +1,33 @@
+import assert from "node:assert";
+import { afterEach, describe, it, mock } from "node:test";
+
+import { google, UnverifiedEmail } from "../providers.js";
+
+// Answers the token exchange, then the userinfo request with `profile`
+function mockGoogle(profile: Record<string, unknown>) {
+  mock.method(globalThis, "fetch", (url: string) => Promise.resolve(Response.json(
+    url.startsWith("https://oauth2.googleapis.com/token") ? { access_token: "token" } : profile,
+  )));
+}
+
+describe("google", () => {
+  const provider = google({ clientId: "client", clientSecret: "secret" });
+  const exchange = () => provider.exchange({ code: "code", redirectUri: "https://example.com/api/auth/callback/google" });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("signs in users with a verified email", async () => {
+    mockGoogle({ sub: "1", email: "kurt@example.com", email_verified: true, name: "Kurt" });
+    assert.deepStrictEqual(await exchange(), { id: "google:1", email: "kurt@example.com", name: "Kurt", image: undefined });
+  });
+
+  it("refuses an email the provider has not verified", async () => {
+    mockGoogle({ sub: "2", email: "kurt@example.com", email_verified: false });
+    await assert.rejects(exchange(), UnverifiedEmail);
+
+    mockGoogle({ sub: "3", email: "kurt@example.com" });
+    await assert.rejects(exchange(), UnverifiedEmail);
+  });
+});
@@ -0,0 +1,8 @@
+import { policy } from "../lib/policy.js";
+import type { Role } from "./roles.js";
+import type { User } from "./session.js";
+
+// Fits routes with `requireSession`; ownership checks are written inline, see README
+export function hasRole(role: Role) {
+  return policy<{ user: User }>(`role ${role}`, ({ user }) => user.roles.includes(role));
+}
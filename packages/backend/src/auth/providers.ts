@@ -0,0 +1,95 @@
+import { z } from "zod";
+
+import { defineError } from "../lib/errors.js";
+import type { User } from "./session.js";
+
+// Roles are granted by email, so an address the provider has not verified cannot sign in
+export const UnverifiedEmail = defineError("UNVERIFIED_EMAIL", { status: 403, message: "Verify your email address with the provider, then sign in again" });
+
+/**
+ * An OAuth sign-in method. The browser is sent to `authorizationUrl`, and the
+ * provider redirects back to `/api/auth/callback/<id>` with a code that
+ * `exchange` trades for the user.
+ */
+export interface OAuthProvider {
+  id: string;
+  authorizationUrl(options: { state: string; redirectUri: string; loginHint?: string }): string;
+  exchange(options: { code: string; redirectUri: string }): Promise<Omit<User, "roles">>;
+}
+
+const googleToken = z.object({ access_token: z.string() });
+const googleUser = z.object({
+  sub: z.string(),
+  email: z.string(),
+  email_verified: z.boolean().optional(),
+  name: z.string().optional(),
+  picture: z.string().optional(),
+});
+
+export function google(options: { clientId: string; clientSecret: string }): OAuthProvider {
+  return {
+    id: "google",
+    authorizationUrl: ({ state, redirectUri, loginHint }) => {
+      const url = new URL("https://accounts.google.com/o/oauth2/v2/auth");
+      url.search = new URLSearchParams({
+        client_id: options.clientId,
+        redirect_uri: redirectUri,
+        response_type: "code",
+        scope: "openid email profile",
+        state,
+        ...loginHint ? { login_hint: loginHint } : {},
+      }).toString();
+      return url.toString();
+    },
+    exchange: async ({ code, redirectUri }) => {
+      const tokenResponse = await fetch("https://oauth2.googleapis.com/token", {
+        method: "POST",
+        body: new URLSearchParams({
+          code,
+          client_id: options.clientId,
+          client_secret: options.clientSecret,
+          redirect_uri: redirectUri,
+          grant_type: "authorization_code",
+        }),
+      });
+      if (!tokenResponse.ok) throw new Error(`Google token exchange failed: ${tokenResponse.status}`);
+      const { access_token } = googleToken.parse(await tokenResponse.json());
+
+      const userResponse = await fetch("https://openidconnect.googleapis.com/v1/userinfo", {
+        headers: { Authorization: `Bearer ${access_token}` },
+      });
+      if (!userResponse.ok) throw new Error(`Google userinfo failed: ${userResponse.status}`);
+      const profile = googleUser.parse(await userResponse.json());
+      if (profile.email_verified !== true) throw new UnverifiedEmail();
+      return { id: `google:${profile.sub}`, email: profile.email, name: profile.name ?? profile.email, image: profile.picture };
+    },
+  };
+}
+
+/**
+ * Signs in as whoever `loginHint` names, without leaving the app, for local
+ * development and e2e scenarios. The "code" is the user itself.
+ */
+export function fake(): OAuthProvider {
+  return {
+    id: "fake",
+    authorizationUrl: ({ state, redirectUri, loginHint = "dev@example.com" }) => {
+      const url = new URL(redirectUri);
+      url.search = new URLSearchParams({ state, code: loginHint }).toString();
+      return url.toString();
+    },
+    exchange: ({ code: email }) => Promise.resolve({ id: `fake:${email}`, email, name: email.split("@")[0] }),
+  };
+}
+
+// Providers with credentials in the environment; the fake one only outside production, where AUTH_FAKE_PROVIDER is set
+export function enabledProviders(): OAuthProvider[] {
+  const providers: OAuthProvider[] = [];
+  if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
+    providers.push(google({ clientId: process.env.GOOGLE_CLIENT_ID, clientSecret: process.env.GOOGLE_CLIENT_SECRET }));
+  }
+  if (process.env.AUTH_FAKE_PROVIDER === "true" && process.env.NODE_ENV !== "production") {
+    providers.push(fake());
+  }
+  return providers;
+}
@@ -0,0 +1,14 @@
+import { z } from "zod";
+
+export const roleSchema = z.enum(["admin"]);
+
+export type Role = z.infer<typeof roleSchema>;
+
+/**
+ * Roles are granted by email when a session starts and travel in the signed
+ * session cookie, so a change takes effect at the user's next sign-in.
+ */
+export function rolesFor(email: string): Role[] {
+  const admins = (process.env.AUTH_ADMINS ?? "").split(",").map((entry) => entry.trim().toLowerCase());
+  return admins.includes(email.toLowerCase()) ? ["admin"] : [];
+}
@@ -0,0 +1,92 @@
+import type { Context } from "hono";
+import { deleteCookie, getSignedCookie, setSignedCookie } from "hono/cookie";
+import type { CookieOptions } from "hono/utils/cookie";
+import { z } from "zod";
+
+import { roleSchema } from "./roles.js";
+
+export const userSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: z.string(),
+  image: z.string().optional(),
+  roles: z.array(roleSchema).default([]),
+});
+
+export const sessionSchema = z.object({
+  user: userSchema,
+  // Epoch milliseconds
+  expiresAt: z.number(),
+});
+
+export type User = z.infer<typeof userSchema>;
+export type Session = z.infer<typeof sessionSchema>;
+
+const SESSION_MAX_AGE = 7 * 24 * 60 * 60;
+
+// Namespaces cookies per deployment, and per worktree in dev, so two apps on one host keep separate sessions
+export function cookieName(name: string): string {
+  return `${process.env.AUTH_COOKIE_PREFIX ?? "app"}.${name}`;
+}
+
+// Without AUTH_SECRET nobody is signed in and signing in fails; the deploy script always sets it
+function signingSecret(): string {
+  if (!process.env.AUTH_SECRET) throw new Error("AUTH_SECRET is not set");
+  return process.env.AUTH_SECRET;
+}
+
+// Browsers drop Secure cookies on plain http, which is what the dev proxy serves
+export function cookieOptions(c: Context, maxAge: number): CookieOptions {
+  return { path: "/", httpOnly: true, sameSite: "Lax", secure: publicOrigin(c).startsWith("https:"), maxAge };
+}
+
+// The origin users see: the edge proxy or CloudFront forward it, the Lambda URL is internal
+export function publicOrigin(c: Context): string {
+  const host = c.req.header("x-forwarded-host");
+  if (!host) return new URL(c.req.url).origin;
+  return `${c.req.header("x-forwarded-proto") ?? "https"}://${host}`;
+}
+
+/**
+ * Sessions are stateless: the session itself is the cookie value, signed
+ * with AUTH_SECRET so it cannot be forged or edited. Signing out clears the
+ * cookie; rotating AUTH_SECRET signs everyone out.
+ */
+export async function readSession(c: Context): Promise<Session | null> {
+  if (!process.env.AUTH_SECRET) return null;
+  const value = await getSignedCookie(c, process.env.AUTH_SECRET, cookieName("session"));
+  if (!value) return null;
+
+  const result = sessionSchema.safeParse(parseJson(value));
+  if (!result.success || result.data.expiresAt <= Date.now()) return null;
+  return result.data;
+}
+
+export async function writeSession(c: Context, user: User): Promise<Session> {
+  const session = { user, expiresAt: Date.now() + SESSION_MAX_AGE * 1000 };
+  await setSignedCookie(c, cookieName("session"), JSON.stringify(session), signingSecret(), cookieOptions(c, SESSION_MAX_AGE));
+  return session;
+}
+
+export function clearSession(c: Context): void {
+  deleteCookie(c, cookieName("session"), cookieOptions(c, 0));
+}
+
+// Short-lived signed cookies for values a redirect round trip has to carry, e.g. the OAuth state
+export async function writeSignedValue(c: Context, name: string, value: unknown, maxAge: number): Promise<void> {
+  await setSignedCookie(c, cookieName(name), JSON.stringify(value), signingSecret(), cookieOptions(c, maxAge));
+}
+
+export async function takeSignedValue(c: Context, name: string): Promise<unknown> {
+  const value = process.env.AUTH_SECRET ? await getSignedCookie(c, process.env.AUTH_SECRET, cookieName(name)) : undefined;
+  deleteCookie(c, cookieName(name), cookieOptions(c, 0));
+  return value ? parseJson(value) : undefined;
+}
+
+function parseJson(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
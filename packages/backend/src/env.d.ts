@@ -1,4 +1,16 @@
 declare namespace NodeJS {
-  // eslint-disable-next-line @typescript-eslint/no-empty-object-type
-  interface ProcessEnv {}
+  interface ProcessEnv {
+    SERVE_OPENAPI: string | undefined; // "true" serves GET /api/openapi.json
+    AUTH_SECRET: string | undefined; // signs session cookies; unset, nobody is signed in. The deploy script keeps one in SSM
+    AUTH_COOKIE_PREFIX: string | undefined; // set by the dev server and deploy script
+    AUTH_ADMINS: string | undefined; // comma-separated emails granted the admin role
+    AUTH_FAKE_PROVIDER: string | undefined; // "true" enables the fake sign-in provider outside production
+    GOOGLE_CLIENT_ID: string | undefined;
+    GOOGLE_CLIENT_SECRET: string | undefined;
+    ORIGIN_SECRET: string | undefined; // set by the dev server; requests without it are rejected
+    ORIGIN_SECRET_PARAMETER: string | undefined; // SSM parameter with the edge's secret, set by the deployed stack
+    SSM_REGION: string | undefined;
+    LOG_LEVEL: string | undefined; // debug, info (default), warn or error
+    RATE_LIMIT_TABLE: string | undefined; // DynamoDB table for rate limit counters; in memory when unset
+  }
 }
@@ -1,22 +1,24 @@
 import { Hono } from "hono";
-import { HTTPException } from "hono/http-exception";
 
-import { api } from "./api.js";
+import { api, apiInfo } from "./api.js";
 import type { AppEnv } from "./lib/app-context.js";
-import { registerToHono } from "./lib/hono-adapter.js";
+import { handleError, registerToHono } from "./lib/hono-adapter.js";
+import { logRequests } from "./lib/logger.js";
+import { generateOpenApi } from "./lib/openapi.js";
+import { verifyOrigin } from "./middleware/origin.js";
 
 const app = new Hono<AppEnv>();
 
-app.onError((err, c) => {
-  console.error("Request error:", err);
+app.onError(handleError);
 
-  if (err instanceof HTTPException) {
-    return c.json({ error: err.message }, err.status);
-  }
-
-  return c.json({ error: "Internal server error" }, 500);
-});
+app.use(logRequests);
+app.use(verifyOrigin);
 
 registerToHono(app, api);
 
+if (process.env.SERVE_OPENAPI === "true") {
+  const document = generateOpenApi(api, apiInfo);
+  app.get("/api/openapi.json", (c) => c.json(document));
+}
+
 export { app };
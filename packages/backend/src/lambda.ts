@@ -3,6 +3,8 @@
 import { streamHandle } from "hono/aws-lambda";
 
 import { app } from "./index.js";
+import { createLogger } from "./lib/logger.js";
+import { createTaskQueue, POST_RESPONSE_BUDGET } from "./lib/wait-until.js";
 
 // Use Hono's streamHandle which properly handles Set-Cookie headers
 // by extracting them into the cookies array format required by Lambda streaming
@@ -16,7 +18,7 @@ export const handler: StreamHandler = Object.assign(
     // Cron warmer: return early without processing
     const event: unknown = args[0];
     if (typeof event === "object" && event !== null && "source" in event && event.source === "warmer") {
-      console.log("[warmer] ping");
+      createLogger().info("Warmer ping");
       // In streaming Lambda, args are (event, responseStream, context).
       // The responseStream must be closed or the invocation hangs until timeout.
       const responseStream = args[1] as unknown as import("stream").Writable;
@@ -24,10 +26,14 @@ export const handler: StreamHandler = Object.assign(
       return;
     }
 
-    await _handler(...args);
+    const tasks = createTaskQueue();
+    await tasks.run(() => _handler(...args));
 
-    // This runs after the lambda response stream is closed.
-    // Add post-response tasks here (e.g. analytics flush).
+    // This runs after the lambda response stream is closed. Finish the work
+    // routes queued with ctx.waitUntil before Lambda freezes the instance,
+    // leaving a second to spare before the function times out.
+    const context = args[2] as unknown as import("aws-lambda").Context;
+    await tasks.settle(Math.min(POST_RESPONSE_BUDGET, context.getRemainingTimeInMillis() - 1_000));
   },
   _handler,
 ) as StreamHandler;
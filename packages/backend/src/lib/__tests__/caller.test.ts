@@ -0,0 +1,92 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+
+import { z } from "zod";
+
+import { middleware, route, routes } from "../app-context.js";
+import { CallerError, createCaller } from "../caller.js";
+import { defineError } from "../errors.js";
+
+const Unauthorized = defineError("UNAUTHORIZED", { status: 401 });
+
+const requireUser = middleware({
+  errors: [Unauthorized],
+  handler: ({ c }) => {
+    const name = c.req.header("x-user");
+    if (!name) throw new Unauthorized();
+    return { user: { name } };
+  },
+});
+
+const api = routes(
+  route("/api/gardens/:id", "GET", {
+    params: { id: z.coerce.number().int() },
+    query: { tags: z.array(z.string()).optional(), filter: z.object({ wet: z.boolean() }).optional() },
+    response: z.object({ id: z.number(), tags: z.array(z.string()), wet: z.boolean().optional() }),
+    handler: ({ params, query }) => ({ id: params.id, tags: query.tags ?? [], wet: query.filter?.wet }),
+  }),
+  route("/api/gardens", "POST", {
+    middleware: [requireUser],
+    body: { name: z.string().min(1) },
+    handler: ({ body, user }) => ({ name: body.name, owner: user.name }),
+  }),
+  route("/api/sign-in", "GET", {
+    handler: ({ c }) => c.redirect("https://accounts.example.com/authorize"),
+  }),
+  route("/api/gardens/:id/map", "GET", {
+    params: { id: z.coerce.number().int() },
+    handler: () => new Response("<svg/>", { headers: { "Content-Type": "image/svg+xml" } }),
+  }),
+);
+
+describe("createCaller", () => {
+  it("returns the validated response", async () => {
+    const caller = createCaller(api);
+
+    const garden = await caller.fetch("/api/gardens/:id", "GET", {
+      params: { id: 7 },
+      query: { tags: ["moss"], filter: { wet: true } },
+    });
+    assert.deepStrictEqual(garden, { id: 7, tags: ["moss"], wet: true });
+  });
+
+  it("runs middleware with the caller's headers", async () => {
+    const caller = createCaller(api, { headers: { "x-user": "kurt" } });
+
+    const garden = await caller.fetch("/api/gardens", "POST", { body: { name: "Ryoan-ji" } });
+    assert.deepStrictEqual(garden, { name: "Ryoan-ji", owner: "kurt" });
+  });
+
+  it("lets a call override the caller's headers", async () => {
+    const caller = createCaller(api, { headers: { "x-user": "kurt" } });
+
+    const garden = await caller.fetch("/api/gardens", "POST", { body: { name: "Saiho-ji" }, headers: { "x-user": "muso" } });
+    assert.strictEqual(garden.owner, "muso");
+  });
+
+  it("throws CallerError with the error body", async () => {
+    const caller = createCaller(api);
+
+    await assert.rejects(
+      caller.fetch("/api/gardens", "POST", { body: { name: "Ryoan-ji" } }),
+      (err) => err instanceof CallerError && err.status === 401 && err.body.code === "UNAUTHORIZED",
+    );
+    await assert.rejects(
+      createCaller(api, { headers: { "x-user": "kurt" } }).fetch("/api/gardens", "POST", { body: { name: "" } }),
+      (err) => err instanceof CallerError && err.status === 400 && err.body.code === "VALIDATION_ERROR",
+    );
+  });
+
+  it("throws CallerError with the status for responses that are not JSON", async () => {
+    const caller = createCaller(api);
+
+    await assert.rejects(
+      caller.fetch("/api/sign-in", "GET"),
+      (err) => err instanceof CallerError && err.status === 302 && err.body.code === "HTTP_ERROR",
+    );
+    await assert.rejects(
+      caller.fetch("/api/gardens/:id/map", "GET", { params: { id: 7 } }),
+      (err) => err instanceof CallerError && err.status === 200 && err.body.message === "Expected JSON, got image/svg+xml",
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+
+import { z } from "zod";
+
+import { middleware, route, routes } from "../app-context.js";
+import { checkResponse, findRoute } from "../contract.js";
+import { defineError } from "../errors.js";
+
+const Unauthorized = defineError("UNAUTHORIZED", { status: 401 });
+const Conflict = defineError("CONFLICT", { status: 409, data: z.object({ existingId: z.string() }) });
+
+const requireUser = middleware({
+  errors: [Unauthorized],
+  handler: () => ({ user: { name: "kurt" } }),
+});
+
+const api = routes(
+  route("/api/gardens/:id", "GET", {
+    response: z.object({ id: z.string(), name: z.string() }),
+    handler: ({ params }) => ({ id: params.id, name: "Ryoan-ji" }),
+  }),
+  route("/api/gardens", "POST", {
+    middleware: [requireUser],
+    errors: [Conflict],
+    handler: () => ({ ok: true }),
+  }),
+);
+
+const getGarden = { method: "GET", path: "/api/gardens/7" };
+const createGarden = { method: "POST", path: "/api/gardens" };
+
+describe("findRoute", () => {
+  it("matches concrete paths against route patterns", () => {
+    assert.strictEqual(findRoute(api, "GET", "/api/gardens/7")?.path, "/api/gardens/:id");
+    assert.strictEqual(findRoute(api, "GET", "/api/gardens/7/rocks"), undefined);
+    assert.strictEqual(findRoute(api, "DELETE", "/api/gardens/7"), undefined);
+  });
+});
+
+describe("checkResponse", () => {
+  it("accepts responses that fit the response schema", () => {
+    assert.deepStrictEqual(checkResponse(api, getGarden, { status: 200, body: { id: "7", name: "Ryoan-ji" } }), []);
+  });
+
+  it("reports responses that break the response schema", () => {
+    const [problem] = checkResponse(api, getGarden, { status: 200, body: { id: 7 } });
+    assert.match(problem, /^GET \/api\/gardens\/7 → 200: response does not match the schema/);
+  });
+
+  it("reports calls to routes that do not exist", () => {
+    assert.deepStrictEqual(
+      checkResponse(api, { method: "GET", path: "/api/hello" }, { status: 404, body: "404 Not Found" }),
+      ["GET /api/hello → 404: no route declares GET /api/hello"],
+    );
+  });
+
+  it("accepts built-in errors and errors declared by the route or its middleware", () => {
+    const errors = [
+      { status: 400, body: { code: "VALIDATION_ERROR", message: "Invalid request body", issues: [] } },
+      { status: 401, body: { code: "UNAUTHORIZED", message: "UNAUTHORIZED" } },
+      { status: 409, body: { code: "CONFLICT", message: "CONFLICT", data: { existingId: "3" } } },
+    ];
+    for (const response of errors) assert.deepStrictEqual(checkResponse(api, createGarden, response), []);
+  });
+
+  it("reports undeclared errors, wrong statuses and malformed error data", () => {
+    assert.deepStrictEqual(checkResponse(api, getGarden, { status: 401, body: { code: "UNAUTHORIZED", message: "" } }), [
+      "GET /api/gardens/7 → 401: UNAUTHORIZED is not declared by the route or its middleware",
+    ]);
+    assert.deepStrictEqual(checkResponse(api, createGarden, { status: 400, body: { code: "CONFLICT", message: "" } }), [
+      "POST /api/gardens → 400: CONFLICT is declared with status 409",
+    ]);
+    assert.match(
+      checkResponse(api, createGarden, { status: 409, body: { code: "CONFLICT", message: "", data: {} } })[0],
+      /CONFLICT data does not match the schema/,
+    );
+    assert.deepStrictEqual(checkResponse(api, createGarden, { status: 500, body: "Internal Server Error" }), [
+      "POST /api/gardens → 500: error body is not a { code, message } envelope",
+    ]);
+  });
+});
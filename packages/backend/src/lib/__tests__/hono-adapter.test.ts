@@ -0,0 +1,531 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+import { setImmediate } from "node:timers/promises";
+
+import { Hono } from "hono";
+import { z } from "zod";
+
+import { type AppContext, type AppEnv, middleware, route, routes } from "../app-context.js";
+import { defineError, NotFound } from "../errors.js";
+import { handleError, registerToHono } from "../hono-adapter.js";
+import { type LogEntry, setLogWriter } from "../logger.js";
+import { policy } from "../policy.js";
+import { memoryStore } from "../rate-limit.js";
+import { routeFactory } from "../route.js";
+
+function createApp(...args: Parameters<typeof routes>) {
+  const app = new Hono<AppEnv>();
+  app.onError(handleError);
+  registerToHono(app, routes(...args));
+  return app;
+}
+
+describe("response schema", () => {
+  it("strips fields the schema does not declare", async () => {
+    const app = createApp(
+      route("/api/users/:id", "GET", {
+        response: z.object({ id: z.string() }),
+        handler: ({ params }) => ({ id: params.id, passwordHash: "secret" }),
+      }),
+    );
+
+    const res = await app.request("/api/users/1");
+    assert.strictEqual(res.status, 200);
+    assert.deepStrictEqual(await res.json(), { id: "1" });
+  });
+
+  it("responds 500 when the handler breaks the schema", async () => {
+    const app = createApp(
+      route("/api/users/:id", "GET", {
+        response: z.object({ id: z.string() }),
+        // @ts-expect-error -- deliberately returns the wrong shape
+        handler: () => ({ id: 1 }),
+      }),
+    );
+
+    const res = await app.request("/api/users/1");
+    assert.strictEqual(res.status, 500);
+    assert.match(((await res.json()) as { message: string }).message, /Invalid response from GET \/api\/users\/:id/);
+  });
+
+  it("only logs the mismatch in production", async (t) => {
+    const entries: LogEntry[] = [];
+    const writer = setLogWriter((entry) => entries.push(entry));
+    const nodeEnv = process.env.NODE_ENV;
+    process.env.NODE_ENV = "production";
+    t.after(() => {
+      setLogWriter(writer);
+      if (nodeEnv === undefined) delete process.env.NODE_ENV;
+      else process.env.NODE_ENV = nodeEnv;
+    });
+    const app = createApp(
+      route("/api/users/:id", "GET", {
+        response: z.object({ id: z.string() }),
+        // @ts-expect-error -- deliberately returns the wrong shape
+        handler: () => ({ id: 1 }),
+      }),
+    );
+
+    const res = await app.request("/api/users/1");
+    assert.strictEqual(res.status, 500);
+    assert.deepStrictEqual(await res.json(), { code: "INTERNAL_SERVER_ERROR", message: "Internal server error" });
+    const [entry] = entries.filter((e) => e.message === "Contract violation");
+    assert.match(entry.detail as string, /Invalid response from GET \/api\/users\/:id/);
+  });
+});
+
+describe("params schema", () => {
+  const app = createApp(
+    route("/api/gardens/:gardenId/rocks/:rockId", "GET", {
+      params: { rockId: z.coerce.number().int() },
+      handler: ({ params }) => ({ gardenId: params.gardenId, rockId: params.rockId + 1 }),
+    }),
+  );
+
+  it("coerces declared params and passes the rest through as strings", async () => {
+    const res = await app.request("/api/gardens/zen/rocks/41");
+    assert.strictEqual(res.status, 200);
+    assert.deepStrictEqual(await res.json(), { gardenId: "zen", rockId: 42 });
+  });
+
+  it("responds 400 when a param fails its schema", async () => {
+    const res = await app.request("/api/gardens/zen/rocks/abc");
+    assert.strictEqual(res.status, 400);
+  });
+});
+
+describe("validation errors", () => {
+  const app = createApp(
+    route("/api/gardens", "POST", {
+      query: { dryRun: z.enum(["true", "false"]).optional() },
+      body: { name: z.string().min(1), size: z.object({ width: z.number() }) },
+      handler: ({ body }) => ({ name: body.name }),
+    }),
+  );
+
+  it("reports every failing field with its path", async () => {
+    const res = await app.request("/api/gardens", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "", size: { width: "wide" } }),
+    });
+    assert.strictEqual(res.status, 400);
+
+    const body = await res.json() as { code: string; message: string; issues: { path: unknown[] }[] };
+    assert.strictEqual(body.code, "VALIDATION_ERROR");
+    assert.strictEqual(body.message, "Invalid request body");
+    assert.deepStrictEqual(body.issues.map((issue) => issue.path), [["body", "name"], ["body", "size", "width"]]);
+  });
+
+  it("prefixes query issues with their source", async () => {
+    const res = await app.request("/api/gardens?dryRun=maybe", { method: "POST" });
+    assert.strictEqual(res.status, 400);
+
+    const body = await res.json() as { message: string; issues: { path: unknown[] }[] };
+    assert.strictEqual(body.message, "Invalid query parameters");
+    assert.deepStrictEqual(body.issues.map((issue) => issue.path), [["query", "dryRun"]]);
+  });
+});
+
+describe("request bodies", () => {
+  const app = createApp(
+    route("/api/gardens", "POST", {
+      body: { name: z.string() },
+      handler: ({ body }) => body,
+    }),
+    route("/api/gardens/search", "POST", {
+      body: { name: z.string(), size: z.coerce.number() },
+      bodyType: "form",
+      handler: ({ body }) => body,
+    }),
+    route("/api/photos", "POST", {
+      body: { caption: z.string(), photos: z.array(z.file().mime(["image/png"])) },
+      bodyType: "multipart",
+      handler: ({ body }) => ({ caption: body.caption, sizes: body.photos.map((photo) => photo.size) }),
+    }),
+    route("/api/photos/raw", "PUT", {
+      bodyType: "binary",
+      handler: async ({ body }) => ({ type: body.type, text: await body.text() }),
+    }),
+  );
+
+  it("reports malformed JSON as a 400", async () => {
+    const res = await app.request("/api/gardens", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "{\"name\":",
+    });
+    assert.strictEqual(res.status, 400);
+    assert.deepStrictEqual(await res.json(), { code: "HTTP_ERROR", message: "Malformed JSON body" });
+  });
+
+  it("rejects content types the route does not accept with 415", async () => {
+    const res = await app.request("/api/gardens", { method: "POST", body: new URLSearchParams({ name: "zen" }) });
+    assert.strictEqual(res.status, 415);
+  });
+
+  it("decodes urlencoded forms", async () => {
+    const res = await app.request("/api/gardens/search", { method: "POST", body: new URLSearchParams({ name: "zen", size: "3" }) });
+    assert.deepStrictEqual(await res.json(), { name: "zen", size: 3 });
+  });
+
+  it("validates multipart file fields", async () => {
+    const form = new FormData();
+    form.append("caption", "moss");
+    form.append("photos", new File(["png"], "moss.png", { type: "image/png" }));
+    const res = await app.request("/api/photos", { method: "POST", body: form });
+    assert.deepStrictEqual(await res.json(), { caption: "moss", sizes: [3] });
+
+    form.set("photos", new File(["txt"], "moss.txt", { type: "text/plain" }));
+    const invalid = await app.request("/api/photos", { method: "POST", body: form });
+    assert.strictEqual(invalid.status, 400);
+  });
+
+  it("passes binary bodies through as a Blob", async () => {
+    const res = await app.request("/api/photos/raw", {
+      method: "PUT",
+      headers: { "Content-Type": "image/png" },
+      body: "raw bytes",
+    });
+    assert.deepStrictEqual(await res.json(), { type: "image/png", text: "raw bytes" });
+  });
+});
+
+describe("declared errors", () => {
+  const Conflict = defineError("CONFLICT", {
+    status: 409,
+    message: "Garden already exists",
+    data: z.object({ existingId: z.string() }),
+  });
+
+  const app = createApp(
+    route("/api/gardens/:name", "PUT", {
+      errors: [NotFound, Conflict],
+      handler: ({ params }) => {
+        if (params.name === "missing") throw new NotFound();
+        if (params.name === "taken") throw new Conflict({ existingId: "g-1" });
+        throw new (defineError("GONE", { status: 410 }))();
+      },
+    }),
+  );
+
+  it("serializes a declared error with its status", async () => {
+    const res = await app.request("/api/gardens/missing", { method: "PUT" });
+    assert.strictEqual(res.status, 404);
+    assert.deepStrictEqual(await res.json(), { code: "NOT_FOUND", message: "Not found" });
+  });
+
+  it("includes the error payload", async () => {
+    const res = await app.request("/api/gardens/taken", { method: "PUT" });
+    assert.strictEqual(res.status, 409);
+    assert.deepStrictEqual(await res.json(), {
+      code: "CONFLICT",
+      message: "Garden already exists",
+      data: { existingId: "g-1" },
+    });
+  });
+
+  it("responds 500 for errors the route did not declare", async () => {
+    const res = await app.request("/api/gardens/other", { method: "PUT" });
+    assert.strictEqual(res.status, 500);
+  });
+});
+
+describe("middleware", () => {
+  const Unauthorized = defineError("UNAUTHORIZED", { status: 401 });
+
+  let sessionLookups = 0;
+  const session = middleware({
+    handler: ({ c }) => {
+      sessionLookups++;
+      const name = c.req.header("x-user");
+      return { user: name ? { name } : null };
+    },
+  });
+  const requireUser = middleware({
+    middleware: [session],
+    errors: [Unauthorized],
+    handler: ({ user }) => {
+      if (!user) throw new Unauthorized();
+      return { user };
+    },
+  });
+
+  const authedRoute = route.with({ middleware: [requireUser] });
+  const app = createApp(
+    authedRoute("/api/me", "GET", {
+      middleware: [session],
+      handler: ({ user }) => ({ name: user.name }),
+    }),
+  );
+
+  it("adds the fields middlewares return to the handler context", async () => {
+    const res = await app.request("/api/me", { headers: { "x-user": "kurt" } });
+    assert.strictEqual(res.status, 200);
+    assert.deepStrictEqual(await res.json(), { name: "kurt" });
+  });
+
+  it("runs a middleware once per request even when listed twice", async () => {
+    sessionLookups = 0;
+    await app.request("/api/me", { headers: { "x-user": "kurt" } });
+    assert.strictEqual(sessionLookups, 1);
+  });
+
+  it("serializes errors declared by middlewares", async () => {
+    const res = await app.request("/api/me");
+    assert.strictEqual(res.status, 401);
+    assert.deepStrictEqual(await res.json(), { code: "UNAUTHORIZED", message: "UNAUTHORIZED" });
+  });
+});
+
+describe("route groups", () => {
+  const visits: string[] = [];
+  const track = middleware({
+    handler: ({ c }) => {
+      visits.push(c.req.path);
+      return { trackedAt: "garden" };
+    },
+  });
+
+  const app = createApp(
+    route.group("/api/gardens/:gardenId", { middleware: [track], params: { gardenId: z.coerce.number() } }, (route) => [
+      route("", "GET", {
+        handler: ({ params, trackedAt }) => ({ gardenId: params.gardenId, trackedAt }),
+      }),
+      route.group("/rocks", {}, (route) => [
+        route("/:rockId", "GET", {
+          handler: ({ params }) => ({ gardenId: params.gardenId, rockId: params.rockId }),
+        }),
+      ]),
+    ]),
+  );
+
+  it("prefixes paths and runs the group middleware", async () => {
+    const res = await app.request("/api/gardens/7");
+    assert.strictEqual(res.status, 200);
+    assert.deepStrictEqual(await res.json(), { gardenId: 7, trackedAt: "garden" });
+    assert.deepStrictEqual(visits, ["/api/gardens/7"]);
+  });
+
+  it("applies group params schemas to nested routes", async () => {
+    const res = await app.request("/api/gardens/7/rocks/granite");
+    assert.deepStrictEqual(await res.json(), { gardenId: 7, rockId: "granite" });
+
+    const invalid = await app.request("/api/gardens/zen/rocks/granite");
+    assert.strictEqual(invalid.status, 400);
+  });
+});
+
+describe("streaming routes", () => {
+  const Expired = defineError("EXPIRED", { status: 410 });
+
+  const app = createApp(
+    route("/api/ticks", "GET", {
+      query: { count: z.coerce.number(), fail: z.enum(["expired", "invalid"]).optional() },
+      stream: z.object({ tick: z.number() }),
+      errors: [Expired],
+      // @ts-expect-error -- deliberately yields the wrong shape
+      handler: async function* ({ query }) {
+        for (let tick = 0; tick < query.count; tick++) {
+          await setImmediate();
+          yield { tick };
+        }
+        if (query.fail === "expired") throw new Expired();
+        if (query.fail === "invalid") yield { tick: "late" };
+      },
+    }),
+  );
+
+  it("sends each event as SSE data", async () => {
+    const res = await app.request("/api/ticks?count=2");
+    assert.strictEqual(res.status, 200);
+    assert.strictEqual(res.headers.get("Content-Type"), "text/event-stream");
+    assert.strictEqual(await res.text(), "data: {\"tick\":0}\n\ndata: {\"tick\":1}\n\n");
+  });
+
+  it("reports errors thrown mid-stream as an error event", async () => {
+    const res = await app.request("/api/ticks?count=1&fail=expired");
+    assert.strictEqual(
+      await res.text(),
+      "data: {\"tick\":0}\n\nevent: error\ndata: {\"status\":410,\"body\":{\"code\":\"EXPIRED\",\"message\":\"EXPIRED\"}}\n\n",
+    );
+  });
+
+  it("reports events breaking the schema as an internal error", async () => {
+    const res = await app.request("/api/ticks?count=0&fail=invalid");
+    assert.match(await res.text(), /^event: error\ndata: \{"status":500,"body":\{"code":"INTERNAL_SERVER_ERROR"/);
+  });
+
+  it("validates the request before streaming", async () => {
+    const res = await app.request("/api/ticks");
+    assert.strictEqual(res.status, 400);
+  });
+});
+
+describe("policies", () => {
+  const checked: string[] = [];
+  const member = middleware({
+    handler: ({ c }) => ({ member: { name: c.req.header("x-user") ?? "", admin: c.req.header("x-admin") === "true" } }),
+  });
+  const isAdmin = policy<{ member: { admin: boolean } }>("role admin", ({ member }) => {
+    checked.push("admin");
+    return member.admin;
+  });
+
+  const app = createApp(
+    route("/api/gardens/:id", "PUT", {
+      middleware: [member],
+      params: { id: z.coerce.number() },
+      body: { name: z.string() },
+      errors: [NotFound],
+      policies: [
+        isAdmin,
+        {
+          description: "owner of the garden",
+          check: ({ member, params }) => {
+            checked.push("owner");
+            if (params.id === 404) throw new NotFound();
+            return member.name === "kurt";
+          },
+        },
+      ],
+      handler: ({ params, body }) => ({ id: params.id, name: body.name }),
+    }),
+  );
+
+  const put = (id: number, headers: Record<string, string>) => app.request(`/api/gardens/${id}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify({ name: "Ryoan-ji" }),
+  });
+
+  it("runs the handler when every policy passes", async () => {
+    const res = await put(1, { "x-user": "kurt", "x-admin": "true" });
+    assert.strictEqual(res.status, 200);
+    assert.deepStrictEqual(await res.json(), { id: 1, name: "Ryoan-ji" });
+  });
+
+  it("responds 403 naming the first policy that denies, without checking the rest", async () => {
+    checked.length = 0;
+    const res = await put(1, { "x-user": "kurt" });
+    assert.strictEqual(res.status, 403);
+    assert.deepStrictEqual(await res.json(), { code: "FORBIDDEN", message: "Requires role admin" });
+    assert.deepStrictEqual(checked, ["admin"]);
+  });
+
+  it("checks validated params", async () => {
+    const res = await put(1, { "x-user": "sesshu", "x-admin": "true" });
+    assert.deepStrictEqual(await res.json(), { code: "FORBIDDEN", message: "Requires owner of the garden" });
+  });
+
+  it("serializes declared errors thrown by a policy", async () => {
+    const res = await put(404, { "x-user": "kurt", "x-admin": "true" });
+    assert.strictEqual(res.status, 404);
+  });
+
+  it("validates the request before checking policies", async () => {
+    checked.length = 0;
+    const res = await app.request("/api/gardens/1", { method: "PUT", headers: { "Content-Type": "application/json" }, body: "{}" });
+    assert.strictEqual(res.status, 400);
+    assert.deepStrictEqual(checked, []);
+  });
+});
+
+describe("rate limits", () => {
+  const limitedRoute = routeFactory<AppContext>({ rateLimitStore: memoryStore() });
+  const member = middleware({
+    handler: ({ c }) => ({ user: c.req.header("x-user") ? { id: c.req.header("x-user") ?? "" } : undefined }),
+  });
+
+  const app = createApp(
+    limitedRoute("/api/gardens", "GET", {
+      rateLimit: { limit: 2, window: 60, by: "ip" },
+      handler: () => [],
+    }),
+    limitedRoute("/api/gardens", "POST", {
+      middleware: [member],
+      rateLimit: [{ limit: 3, window: 1, by: "user" }, { limit: 5, window: 3600, by: "user" }],
+      handler: () => ({ ok: true }),
+    }),
+    limitedRoute("/api/sign-in", "POST", {
+      body: { email: z.string() },
+      rateLimit: { limit: 1, window: 60, by: ({ body }) => body.email },
+      handler: () => ({ ok: true }),
+    }),
+    limitedRoute("/api/gardens/:id", "PUT", {
+      params: { id: z.coerce.number() },
+      body: { name: z.string() },
+      rateLimit: { limit: 2, window: 60, by: "ip" },
+      handler: () => ({ ok: true }),
+    }),
+  );
+
+  const list = (ip: string) => app.request("/api/gardens", { headers: { "x-client-ip": ip } });
+  const create = (user: string) => app.request("/api/gardens", { method: "POST", headers: { "x-client-ip": "203.0.113.1", "x-user": user } });
+  const signIn = (email: string) => app.request("/api/sign-in", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "x-client-ip": "203.0.113.1" },
+    body: JSON.stringify({ email }),
+  });
+
+  it("reports the limit in RateLimit headers", async () => {
+    const res = await list("198.51.100.1");
+    assert.strictEqual(res.status, 200);
+    assert.strictEqual(res.headers.get("RateLimit-Limit"), "2");
+    assert.strictEqual(res.headers.get("RateLimit-Remaining"), "1");
+    assert.ok(Number(res.headers.get("RateLimit-Reset")) <= 60);
+  });
+
+  it("responds 429 with Retry-After once the limit is exceeded", async () => {
+    await list("198.51.100.2");
+    await list("198.51.100.2");
+    const res = await list("198.51.100.2");
+    assert.strictEqual(res.status, 429);
+    assert.strictEqual(res.headers.get("RateLimit-Remaining"), "0");
+    const retryAfter = Number(res.headers.get("Retry-After"));
+    assert.ok(retryAfter > 0 && retryAfter <= 60);
+    assert.deepStrictEqual(await res.json(), { code: "RATE_LIMITED", message: "Too many requests", retryAfter });
+  });
+
+  it("counts each IP separately", async () => {
+    await list("198.51.100.3");
+    await list("198.51.100.3");
+    const res = await list("198.51.100.4");
+    assert.strictEqual(res.status, 200);
+  });
+
+  it("counts each user separately and reports the limit closest to running out", async () => {
+    const first = await create("kurt");
+    assert.strictEqual(first.headers.get("RateLimit-Limit"), "3");
+    assert.strictEqual(first.headers.get("RateLimit-Remaining"), "2");
+
+    const other = await create("sesshu");
+    assert.strictEqual(other.status, 200);
+  });
+
+  it("keys by a function of the validated request", async () => {
+    assert.strictEqual((await signIn("kurt@example.com")).status, 200);
+    assert.strictEqual((await signIn("kurt@example.com")).status, 429);
+    assert.strictEqual((await signIn("sesshu@example.com")).status, 200);
+  });
+
+  it("counts IP limits before parsing the request", async () => {
+    const rename = (headers: Record<string, string>, body: string) => app.request("/api/gardens/1", {
+      method: "PUT",
+      headers: { "x-client-ip": "198.51.100.5", ...headers },
+      body,
+    });
+
+    assert.strictEqual((await rename({ "Content-Type": "application/json" }, "{")).status, 400);
+    assert.strictEqual((await rename({ "Content-Type": "text/plain" }, "moss")).status, 415);
+    const res = await rename({ "Content-Type": "application/json" }, JSON.stringify({ name: "moss" }));
+    assert.strictEqual(res.status, 429);
+  });
+
+  it("needs a store", () => {
+    assert.throws(() => routeFactory<AppContext>()("/api/gardens", "GET", {
+      rateLimit: { limit: 1, window: 60, by: "ip" },
+      handler: () => [],
+    }), /needs a store/);
+  });
+});
@@ -0,0 +1,79 @@
+import assert from "node:assert";
+import { afterEach, beforeEach, describe, it } from "node:test";
+
+import { Hono } from "hono";
+
+import { type AppEnv, route, routes } from "../app-context.js";
+import { handleError, registerToHono } from "../hono-adapter.js";
+import { createLogger, type LogEntry, logRequests, setLogWriter } from "../logger.js";
+
+const entries: LogEntry[] = [];
+
+beforeEach(() => {
+  entries.length = 0;
+  setLogWriter((entry) => entries.push(entry));
+});
+
+afterEach(() => {
+  delete process.env.LOG_LEVEL;
+});
+
+describe("createLogger", () => {
+  it("adds its fields and serializes errors", () => {
+    createLogger({ requestId: "r-1" }).child({ route: "/api/gardens" }).error("Failed", { error: new TypeError("boom") });
+    const [{ error, ...entry }] = entries;
+    assert.deepStrictEqual(entry, { level: "error", message: "Failed", requestId: "r-1", route: "/api/gardens" });
+    assert.match(JSON.stringify(error), /^\{"name":"TypeError","message":"boom","stack":"TypeError: boom\\n/);
+  });
+
+  it("drops entries below LOG_LEVEL", () => {
+    process.env.LOG_LEVEL = "warn";
+    const log = createLogger();
+    log.info("Hidden");
+    log.warn("Shown");
+    assert.deepStrictEqual(entries.map((entry) => entry.message), ["Shown"]);
+  });
+});
+
+describe("logRequests", () => {
+  const app = new Hono<AppEnv>();
+  app.onError(handleError);
+  app.use(logRequests);
+  registerToHono(app, routes(
+    route("/api/gardens/:id", "GET", {
+      handler: ({ params, log }) => {
+        log.info("Loading garden", { id: params.id });
+        return { id: params.id };
+      },
+    }),
+    route("/api/broken", "GET", {
+      handler: () => {
+        throw new Error("boom");
+      },
+    }),
+  ));
+
+  it("logs each request with its route, status and the request id it echoes", async () => {
+    const res = await app.request("/api/gardens/1", { headers: { "x-request-id": "r-1", "x-branch": "main" } });
+    assert.strictEqual(res.headers.get("x-request-id"), "r-1");
+
+    const [handlerEntry, { durationMs, ...requestEntry }] = entries;
+    const request = { requestId: "r-1", method: "GET", path: "/api/gardens/1", branch: "main", route: "/api/gardens/:id" };
+    assert.deepStrictEqual(handlerEntry, { level: "info", message: "Loading garden", ...request, id: "1" });
+    assert.deepStrictEqual(requestEntry, { level: "info", message: "Request", ...request, status: 200 });
+    assert.strictEqual(typeof durationMs, "number");
+  });
+
+  it("creates a request id when the edge sent none", async () => {
+    const res = await app.request("/api/gardens/1");
+    assert.match(res.headers.get("x-request-id") ?? "", /^[0-9a-f-]{36}$/);
+    assert.strictEqual(entries.at(-1)?.requestId, res.headers.get("x-request-id"));
+  });
+
+  it("logs server errors with the error", async () => {
+    const res = await app.request("/api/broken");
+    assert.strictEqual(res.status, 500);
+    assert.deepStrictEqual(entries.map((entry) => [entry.level, entry.message]), [["error", "Request failed"], ["error", "Request"]]);
+    assert.strictEqual((entries[0].error as { message: string }).message, "boom");
+  });
+});
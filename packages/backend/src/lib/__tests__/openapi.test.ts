@@ -0,0 +1,186 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+
+import { z } from "zod";
+
+import { route, routes } from "../app-context.js";
+import { defineError } from "../errors.js";
+import { generateOpenApi } from "../openapi.js";
+
+const info = { title: "test", version: "1.0.0" };
+
+describe("generateOpenApi", () => {
+  const Conflict = defineError("CONFLICT", { status: 409, data: z.object({ existingId: z.string() }) });
+
+  const document = generateOpenApi(
+    routes(
+      route("/api/gardens/:gardenId/rocks/:rockId", "GET", {
+        params: { rockId: z.coerce.number() },
+        query: { include: z.string().optional() },
+        response: z.object({ id: z.number() }),
+        handler: ({ params }) => ({ id: params.rockId }),
+      }),
+      route("/api/gardens", "POST", {
+        body: { name: z.string() },
+        errors: [Conflict],
+        handler: ({ body }) => ({ name: body.name }),
+      }),
+    ),
+    info,
+  );
+
+  it("converts path params to OpenAPI templates", () => {
+    assert.deepStrictEqual(Object.keys(document.paths), ["/api/gardens/{gardenId}/rocks/{rockId}", "/api/gardens"]);
+  });
+
+  it("describes path and query parameters", () => {
+    const operation = document.paths["/api/gardens/{gardenId}/rocks/{rockId}"].get;
+    assert.strictEqual(operation.operationId, "getApiGardensByGardenIdRocksByRockId");
+    assert.deepStrictEqual(operation.parameters, [
+      { name: "gardenId", in: "path", required: true, schema: { type: "string" } },
+      { name: "rockId", in: "path", required: true, schema: { type: "number" } },
+      { name: "include", in: "query", required: false, schema: { type: "string" } },
+    ]);
+  });
+
+  it("describes the request body and response", () => {
+    const get = document.paths["/api/gardens/{gardenId}/rocks/{rockId}"].get;
+    assert.deepStrictEqual(get.responses[200].content?.["application/json"].schema, {
+      type: "object",
+      properties: { id: { type: "number" } },
+      required: ["id"],
+      additionalProperties: false,
+    });
+
+    const post = document.paths["/api/gardens"].post;
+    assert.deepStrictEqual(post.requestBody?.content["application/json"].schema, {
+      type: "object",
+      properties: { name: { type: "string" } },
+      required: ["name"],
+    });
+    assert.strictEqual(post.requestBody.required, true);
+  });
+
+  it("lets a body with only optional fields be left out", () => {
+    const { paths } = generateOpenApi(
+      routes(route("/api/gardens/:id", "PATCH", { body: { name: z.string().optional() }, handler: () => ({ ok: true }) })),
+      info,
+    );
+    assert.strictEqual(paths["/api/gardens/{id}"].patch.requestBody?.required, false);
+  });
+
+  it("describes unsupported content types as 415s", () => {
+    assert.deepStrictEqual(document.paths["/api/gardens"].post.responses[415], {
+      description: "Content-Type is not application/json",
+      content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+    });
+  });
+
+  it("describes requireSession as a 401", () => {
+    const { paths } = generateOpenApi(
+      routes(route("/api/me", "GET", { requireSession: true, handler: ({ user }) => ({ email: user.email }) })),
+      info,
+    );
+    assert.deepStrictEqual(paths["/api/me"].get.responses[401].content?.["application/json"].schema, {
+      type: "object",
+      properties: { code: { const: "UNAUTHORIZED" }, message: { type: "string" } },
+      required: ["code", "message"],
+    });
+  });
+
+  it("lists validation, declared and internal errors", () => {
+    const { responses } = document.paths["/api/gardens"].post;
+    assert.deepStrictEqual(Object.keys(responses), ["200", "400", "409", "415", "500"]);
+    assert.deepStrictEqual(responses[409].content?.["application/json"].schema, {
+      type: "object",
+      properties: {
+        code: { const: "CONFLICT" },
+        message: { type: "string" },
+        data: {
+          type: "object",
+          properties: { existingId: { type: "string" } },
+          required: ["existingId"],
+          additionalProperties: false,
+        },
+      },
+      required: ["code", "message", "data"],
+    });
+  });
+
+  it("describes policy denials as 403s", () => {
+    const { paths } = generateOpenApi(
+      routes(
+        route("/api/gardens/:id", "DELETE", {
+          policies: [{ description: "role admin", check: () => true }, { description: "owner of the garden", check: () => true }],
+          handler: () => ({ ok: true }),
+        }),
+      ),
+      info,
+    );
+
+    assert.deepStrictEqual(paths["/api/gardens/{id}"].delete.responses[403], {
+      description: "Requires role admin and owner of the garden",
+      content: { "application/json": { schema: { $ref: "#/components/schemas/Forbidden" } } },
+    });
+  });
+
+  it("describes rate limits as 429s", () => {
+    const { paths } = generateOpenApi(
+      routes(
+        route("/api/gardens", "POST", {
+          rateLimit: [{ limit: 10, window: 60, by: "user" }, { limit: 100, window: 86400, by: "ip" }],
+          handler: () => ({ ok: true }),
+        }),
+      ),
+      info,
+    );
+
+    assert.deepStrictEqual(paths["/api/gardens"].post.responses[429], {
+      description: "Exceeds 10 per 60s by user or 100 per 86400s by ip",
+      content: { "application/json": { schema: { $ref: "#/components/schemas/RateLimited" } } },
+    });
+  });
+
+  it("describes streaming routes as server-sent events", () => {
+    const { paths } = generateOpenApi(
+      routes(
+        route("/api/ticks", "GET", {
+          stream: z.object({ tick: z.number() }),
+          handler: function* () {
+            yield { tick: 0 };
+          },
+        }),
+      ),
+      info,
+    );
+
+    assert.deepStrictEqual(paths["/api/ticks"].get.responses[200].content, {
+      "text/event-stream": {
+        schema: { type: "object", properties: { tick: { type: "number" } }, required: ["tick"], additionalProperties: false },
+      },
+    });
+  });
+
+  it("uses the route's body content type", () => {
+    const { paths } = generateOpenApi(
+      routes(
+        route("/api/photos", "POST", {
+          body: { photo: z.file() },
+          bodyType: "multipart",
+          handler: ({ body }) => ({ size: body.photo.size }),
+        }),
+      ),
+      info,
+    );
+
+    assert.deepStrictEqual(paths["/api/photos"].post.requestBody?.content, {
+      "multipart/form-data": {
+        schema: {
+          type: "object",
+          properties: { photo: { type: "string", format: "binary", contentEncoding: "binary" } },
+          required: ["photo"],
+        },
+      },
+    });
+  });
+});
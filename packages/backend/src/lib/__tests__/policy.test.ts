@@ -0,0 +1,39 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+
+import { middleware, route, routes } from "../app-context.js";
+import { anyOf, describeAccess, policy } from "../policy.js";
+
+describe("anyOf", () => {
+  const allow = policy("allow", () => true);
+  const deny = policy("deny", () => false);
+
+  it("passes when any policy does", async () => {
+    assert.strictEqual(await anyOf(deny, allow).check({}), true);
+    assert.strictEqual(await anyOf(deny, deny).check({}), false);
+  });
+
+  it("describes the alternatives", () => {
+    assert.strictEqual(anyOf(deny, allow).description, "deny or allow");
+  });
+});
+
+describe("describeAccess", () => {
+  const session = middleware({ handler: () => ({ user: { admin: true } }) });
+  const admin = middleware({ middleware: [session], handler: () => {} });
+  const isAdmin = policy<{ user: { admin: boolean } }>("role admin", ({ user }) => user.admin);
+
+  it("lists the session requirement and policies of each route", () => {
+    const api = routes(
+      route("/api/health", "GET", { handler: () => "ok" }),
+      route("/api/me", "GET", { middleware: [session], handler: ({ user }) => user }),
+      route("/api/admin/users", "GET", { middleware: [admin], policies: [isAdmin], handler: () => [] }),
+    );
+
+    assert.deepStrictEqual(describeAccess(api, session), [
+      { method: "GET", path: "/api/health", session: false, policies: [] },
+      { method: "GET", path: "/api/me", session: true, policies: [] },
+      { method: "GET", path: "/api/admin/users", session: true, policies: ["role admin"] },
+    ]);
+  });
+});
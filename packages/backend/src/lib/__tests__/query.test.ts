@@ -0,0 +1,114 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+
+import { Hono } from "hono";
+import { encodeQuery } from "shared/query-encoding";
+import { z } from "zod";
+
+import { type AppEnv, route, routes } from "../app-context.js";
+import { registerToHono } from "../hono-adapter.js";
+import { decodeQuery } from "../query.js";
+
+// The query strings below are what ApiClient sends (see the frontend api-client tests)
+function decode(queryString: string, shape: Record<string, z.ZodTypeAny>) {
+  const queries: Record<string, string[]> = {};
+  for (const [key, value] of new URLSearchParams(queryString)) {
+    (queries[key] ??= []).push(value);
+  }
+  return z.object(shape).parse(decodeQuery(queries, shape));
+}
+
+describe("decodeQuery", () => {
+  it("keeps strings and enums as they are", () => {
+    assert.deepStrictEqual(
+      decode("name=moss&sort=asc", { name: z.string(), sort: z.enum(["asc", "desc"]) }),
+      { name: "moss", sort: "asc" },
+    );
+  });
+
+  it("coerces numbers, booleans, bigints and dates", () => {
+    assert.deepStrictEqual(
+      decode("page=2&draft=false&id=9007199254740993&at=1970-01-01T00:00:00.000Z", {
+        page: z.number().int(),
+        draft: z.boolean(),
+        id: z.bigint(),
+        at: z.date(),
+      }),
+      { page: 2, draft: false, id: 9007199254740993n, at: new Date(0) },
+    );
+  });
+
+  it("reads repeated keys as arrays, even with a single value", () => {
+    const shape = { tags: z.array(z.string()), sizes: z.array(z.number()).optional() };
+    assert.deepStrictEqual(decode("tags=a&tags=b&sizes=1&sizes=2", shape), { tags: ["a", "b"], sizes: [1, 2] });
+    assert.deepStrictEqual(decode("tags=a", shape), { tags: ["a"] });
+  });
+
+  it("reads bracket notation as nested objects", () => {
+    assert.deepStrictEqual(
+      decode("filter[size][min]=1&filter[tags]=moss&filter[tags]=stone", {
+        filter: z.object({ size: z.object({ min: z.number() }), tags: z.array(z.string()) }),
+      }),
+      { filter: { size: { min: 1 }, tags: ["moss", "stone"] } },
+    );
+  });
+
+  it("reads objects inside arrays from JSON", () => {
+    assert.deepStrictEqual(
+      decode("items=%7B%22id%22%3A1%7D&items=%7B%22id%22%3A2%7D", { items: z.array(z.object({ id: z.number() })) }),
+      { items: [{ id: 1 }, { id: 2 }] },
+    );
+  });
+
+  it("drops keys that would write to Object.prototype", () => {
+    const shape = { filter: z.object({ wet: z.boolean() }).optional() };
+    assert.deepStrictEqual(decode("__proto__[isAdmin]=1&constructor[prototype][isAdmin]=1&filter[__proto__][isAdmin]=1", shape), {});
+    assert.strictEqual(({} as Record<string, unknown>).isAdmin, undefined);
+  });
+
+  it("leaves values that do not fit for zod to report", () => {
+    assert.throws(() => decode("page=two", { page: z.number() }), z.ZodError);
+    assert.throws(() => decode("draft=yes", { draft: z.boolean() }), z.ZodError);
+  });
+});
+
+describe("encodeQuery round trip", () => {
+  it("writes what decodeQuery reads", () => {
+    const shape = {
+      tags: z.array(z.string()),
+      page: z.number(),
+      at: z.date(),
+      filter: z.object({ size: z.object({ min: z.number() }) }),
+      items: z.array(z.object({ id: z.number() })),
+      draft: z.boolean().optional(),
+    };
+    const query = { tags: ["a"], page: 2, at: new Date(0), filter: { size: { min: 1 } }, items: [{ id: 1 }], draft: undefined };
+
+    assert.strictEqual(
+      encodeQuery(query),
+      "tags=a&page=2&at=1970-01-01T00%3A00%3A00.000Z&filter%5Bsize%5D%5Bmin%5D=1&items=%7B%22id%22%3A1%7D",
+    );
+    assert.deepStrictEqual(decode(encodeQuery(query), shape), { tags: ["a"], page: 2, at: new Date(0), filter: { size: { min: 1 } }, items: [{ id: 1 }] });
+  });
+
+  it("reads an empty list back as [] when the schema requires it", () => {
+    const shape = { tags: z.array(z.string()), sizes: z.array(z.number()).optional() };
+    assert.strictEqual(encodeQuery({ tags: [], sizes: [] }), "");
+    assert.deepStrictEqual(decode(encodeQuery({ tags: [], sizes: [] }), shape), { tags: [] });
+  });
+});
+
+describe("query parameters in routes", () => {
+  const app = new Hono<AppEnv>();
+  registerToHono(app, routes(
+    route("/api/gardens", "GET", {
+      query: { tags: z.array(z.string()), limit: z.number().optional(), filter: z.object({ wet: z.boolean() }).optional() },
+      handler: ({ query }) => query,
+    }),
+  ));
+
+  it("decodes the query before validating it", async () => {
+    const res = await app.request("/api/gardens?tags=moss&limit=10&filter[wet]=true");
+    assert.deepStrictEqual(await res.json(), { tags: ["moss"], limit: 10, filter: { wet: true } });
+  });
+});
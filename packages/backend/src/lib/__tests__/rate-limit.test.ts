@@ -0,0 +1,66 @@
+import assert from "node:assert";
+import { describe, it } from "node:test";
+
+import type { Context } from "hono";
+
+import { createLogger, type LogEntry, setLogWriter } from "../logger.js";
+import { consumeRateLimits, memoryStore } from "../rate-limit.js";
+
+const ctx = { c: { req: { header: () => "203.0.113.1" } } as unknown as Context, log: createLogger() };
+
+describe("memoryStore", () => {
+  it("counts per key", async () => {
+    const store = memoryStore();
+    const expiresAt = Date.now() + 60_000;
+    assert.strictEqual(await store.increment("a", expiresAt), 1);
+    assert.strictEqual(await store.increment("a", expiresAt), 2);
+    assert.strictEqual(await store.increment("b", expiresAt), 1);
+  });
+});
+
+describe("consumeRateLimits", () => {
+  it("reports the limit with the fewest requests left", async () => {
+    const state = await consumeRateLimits(memoryStore(), "GET /api/gardens", [
+      { limit: 10, window: 60, by: "ip" },
+      { limit: 3, window: 3600, by: "ip" },
+    ], ctx);
+    assert.strictEqual(state?.limit, 3);
+    assert.strictEqual(state.remaining, 2);
+  });
+
+  it("reports the exceeded limit that resets last", async () => {
+    const store = memoryStore();
+    const limits = [{ limit: 1, window: 3600, by: "ip" }, { limit: 0, window: 60, by: "ip" }] as const;
+    await consumeRateLimits(store, "GET /api/gardens", limits, ctx);
+    const state = await consumeRateLimits(store, "GET /api/gardens", limits, ctx);
+    assert.strictEqual(state?.limit, 1);
+    assert.ok(state.remaining < 0);
+  });
+
+  it("falls back to the IP for signed-out requests limited by user", async () => {
+    const store = memoryStore();
+    await consumeRateLimits(store, "POST /api/gardens", [{ limit: 1, window: 60, by: "user" }], ctx);
+    const state = await consumeRateLimits(store, "POST /api/gardens", [{ limit: 1, window: 60, by: "user" }], ctx);
+    assert.ok(state && state.remaining < 0);
+
+    const signedInCtx = { ...ctx, user: { id: "kurt" } };
+    const signedIn = await consumeRateLimits(store, "POST /api/gardens", [{ limit: 1, window: 60, by: "user" }], signedInCtx);
+    assert.strictEqual(signedIn?.remaining, 0);
+  });
+
+  it("skips IP limits with a warning for requests without X-Client-IP", async (t) => {
+    const entries: LogEntry[] = [];
+    const writer = setLogWriter((entry) => entries.push(entry));
+    t.after(() => setLogWriter(writer));
+    const noIp = { c: { req: { header: () => undefined } } as unknown as Context, log: createLogger() };
+    const store = memoryStore();
+    const limits = [{ limit: 0, window: 60, by: "ip" }] as const;
+
+    assert.strictEqual(await consumeRateLimits(store, "GET /api/gardens", limits, noIp), null);
+    assert.strictEqual(await consumeRateLimits(store, "GET /api/gardens", limits, noIp), null);
+    assert.deepStrictEqual(entries.map((entry) => entry.level), ["warn", "warn"]);
+
+    const byKey = await consumeRateLimits(store, "GET /api/gardens", [...limits, { limit: 1, window: 60, by: () => "kurt" }], noIp);
+    assert.strictEqual(byKey?.remaining, 0);
+  });
+});
@@ -0,0 +1,80 @@
+import assert from "node:assert";
+import { beforeEach, describe, it } from "node:test";
+import { setTimeout as sleep } from "node:timers/promises";
+
+import { route, routes } from "../app-context.js";
+import { createCaller } from "../caller.js";
+import { createLogger, type LogEntry, setLogWriter } from "../logger.js";
+import { createTaskQueue, waitUntil } from "../wait-until.js";
+
+const entries: LogEntry[] = [];
+
+beforeEach(() => {
+  entries.length = 0;
+  setLogWriter((entry) => entries.push(entry));
+});
+
+describe("createTaskQueue", () => {
+  it("settles tasks queued while running, logging failures", async () => {
+    const tasks = createTaskQueue();
+    const done: string[] = [];
+    await tasks.run(async () => {
+      await sleep(1);
+      waitUntil(sleep(5).then(() => done.push("flush")), createLogger());
+      waitUntil(Promise.reject(new Error("boom")), createLogger({ requestId: "r-1" }));
+    });
+    assert.deepStrictEqual(done, []);
+
+    await tasks.settle();
+    assert.deepStrictEqual(done, ["flush"]);
+    assert.deepStrictEqual(entries.map(({ message, requestId }) => ({ message, requestId })), [
+      { message: "Post-response task failed", requestId: "r-1" },
+    ]);
+  });
+
+  it("stops waiting after the budget", async () => {
+    const tasks = createTaskQueue();
+    tasks.run(() => waitUntil(sleep(200), createLogger()));
+
+    const start = performance.now();
+    await tasks.settle(10);
+    assert.ok(performance.now() - start < 100);
+    assert.deepStrictEqual(entries, [{ level: "warn", message: "Post-response task exceeded its budget", budgetMs: 10 }]);
+  });
+
+  it("keeps concurrent requests' tasks apart", async () => {
+    const first = createTaskQueue();
+    const second = createTaskQueue();
+    let finished = false;
+    await Promise.all([
+      first.run(async () => {
+        await sleep(1);
+        waitUntil(sleep(50).then(() => finished = true), createLogger());
+      }),
+      second.run(() => Promise.resolve()),
+    ]);
+
+    await second.settle();
+    assert.strictEqual(finished, false);
+    await first.settle();
+    assert.strictEqual(finished, true);
+  });
+});
+
+describe("ctx.waitUntil", () => {
+  it("runs after the response, before createCaller returns", async () => {
+    const events: string[] = [];
+    const caller = createCaller(routes(
+      route("/api/visits", "POST", {
+        handler: ({ waitUntil }) => {
+          waitUntil(sleep(5).then(() => events.push("flushed")));
+          events.push("responded");
+          return { ok: true };
+        },
+      }),
+    ));
+
+    assert.deepStrictEqual(await caller.fetch("/api/visits", "POST"), { ok: true });
+    assert.deepStrictEqual(events, ["responded", "flushed"]);
+  });
+});
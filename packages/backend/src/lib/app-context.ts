@@ -1,5 +1,8 @@
 import type { Context } from "hono";
 
+import { requireSession } from "../middleware/session.js";
+import { middlewareFactory } from "./middleware.js";
+import { dynamoStore, memoryStore } from "./rate-limit.js";
 import { routeFactory, routesFactory } from "./route.js";
 
 export type AppEnv = {
@@ -8,5 +11,10 @@ export type AppEnv = {
 
 export type AppContext = Context<AppEnv>;
 
-export const route = routeFactory<AppContext>();
+export const middleware = middlewareFactory<AppContext>();
+export const route = routeFactory<AppContext, typeof requireSession>({
+  requireSession,
+  // The deployed stack creates a table shared by all Lambda instances
+  rateLimitStore: process.env.RATE_LIMIT_TABLE ? dynamoStore({ tableName: process.env.RATE_LIMIT_TABLE }) : memoryStore(),
+});
 export const routes = routesFactory<AppContext>();
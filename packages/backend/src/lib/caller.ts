@@ -0,0 +1,104 @@
+import { type Context, type Env, Hono } from "hono";
+import { encodeQuery } from "shared/query-encoding";
+import { encodeBody, type FetchOptions, type HasRequired } from "shared/route-request";
+
+import { handleError, registerToHono } from "./hono-adapter.js";
+import type { ExtractRoutes, RouteCollection, RouteDef } from "./route.js";
+import { createTaskQueue } from "./wait-until.js";
+
+export type { HasRequired };
+
+// The options ApiClient.fetch takes for a route, plus headers for this call
+export type CallOptions<R> = FetchOptions<R> & { headers?: Record<string, string> };
+
+type CallArgs<Routes, P extends keyof Routes, M extends keyof Routes[P]> = HasRequired<Routes[P][M]> extends true
+  ? [path: P, method: M, options: CallOptions<Routes[P][M]>]
+  : [path: P, method: M, options?: CallOptions<Routes[P][M]>];
+
+export type ResponseOf<R> = R extends { response: infer Res } ? Res : never;
+
+/**
+ * Thrown by a caller for non-2xx responses, with the error envelope the route
+ * sent, and for responses that are not JSON, such as a redirect
+ */
+export class CallerError extends Error {
+  constructor(
+    readonly path: string,
+    readonly method: string,
+    readonly status: number,
+    readonly body: { code: string; message: string } & Record<string, unknown>,
+  ) {
+    super(body.message);
+    this.name = "CallerError";
+  }
+}
+
+/**
+ * Call routes in-process with the same middleware, validation and error
+ * handling as the deployed app, without opening a port.
+ *
+ *   const caller = createCaller(api, { headers: { cookie: "session=…" } });
+ *   const user = await caller.fetch("/api/users/:id", "GET", { params: { id: "1" } });
+ */
+export function createCaller<E extends Env, T extends RouteDef[]>(
+  api: RouteCollection<Context<E>, T>,
+  context: { headers?: Record<string, string> } = {},
+) {
+  type Routes = ExtractRoutes<T>;
+
+  const app = new Hono<E>();
+  app.onError(handleError);
+  registerToHono(app, api);
+
+  async function fetch<P extends keyof Routes & string, M extends keyof Routes[P] & string>(
+    ...args: CallArgs<Routes, P, M>
+  ): Promise<ResponseOf<Routes[P][M]>> {
+    const [path, method, options = {}] = args as [string, string, {
+      params?: Record<string, unknown>;
+      query?: Record<string, unknown>;
+      body?: Record<string, unknown> | Blob;
+      headers?: Record<string, string>;
+    }?];
+
+    let url = path.replace(/:(\w+)/g, (_, key: string) => encodeURIComponent(String(options.params?.[key])));
+    const qs = options.query ? encodeQuery(options.query) : "";
+    if (qs) url += `?${qs}`;
+
+    const encoded = encodeBody(options.body);
+    const tasks = createTaskQueue();
+    const response = await tasks.run(() => app.request(url, {
+      method,
+      headers: { ...(encoded.contentType && { "Content-Type": encoded.contentType }), ...context.headers, ...options.headers },
+      body: encoded.body,
+    }));
+    // Like the deployed app, ctx.waitUntil tasks run after the response, and are done when the call returns
+    const json = readJson(response).finally(() => tasks.settle());
+    const body = await json;
+
+    if (!response.ok) {
+      throw new CallerError(path, method, response.status, isErrorBody(body) ? body : { code: "HTTP_ERROR", message: `HTTP ${response.status}` });
+    }
+    if (body === undefined) {
+      const type = response.headers.get("Content-Type") ?? "no body";
+      throw new CallerError(path, method, response.status, { code: "HTTP_ERROR", message: `Expected JSON, got ${type}` });
+    }
+    return json as Promise<ResponseOf<Routes[P][M]>>;
+  }
+
+  return { app, fetch };
+}
+
+// `undefined` unless the route answered with JSON, e.g. for redirects and raw Responses
+async function readJson(response: Response): Promise<unknown> {
+  const type = response.headers.get("Content-Type")?.split(";")[0].trim().toLowerCase();
+  if (type !== "application/json") {
+    await response.body?.cancel();
+    return undefined;
+  }
+  return response.json();
+}
+
+function isErrorBody(body: unknown): body is CallerError["body"] {
+  return typeof body === "object" && body !== null && "code" in body && "message" in body
+    && typeof body.code === "string" && typeof body.message === "string";
+}
@@ -0,0 +1,60 @@
+import { z } from "zod";
+
+import type { RouteCollection, RouteDef } from "./route.js";
+
+// Codes any route can send, see toErrorResponse
+const BUILT_IN_ERRORS = new Set(["VALIDATION_ERROR", "FORBIDDEN", "RATE_LIMITED", "HTTP_ERROR", "INTERNAL_SERVER_ERROR"]);
+
+const errorEnvelope = z.object({ code: z.string(), message: z.string() });
+
+export function findRoute(collection: RouteCollection<unknown, RouteDef[]>, method: string, path: string): RouteDef | undefined {
+  return collection.routes.find((routeDef) => routeDef.method === method && pathPattern(routeDef.path as string).test(path));
+}
+
+/**
+ * Check a response a client received against what its route declares: 2xx
+ * bodies against the response schema, everything else against the error
+ * envelope and the errors the route and its middleware declare.
+ * Returns the mismatches found, empty when the response keeps the contract.
+ */
+export function checkResponse(
+  collection: RouteCollection<unknown, RouteDef[]>,
+  request: { method: string; path: string },
+  response: { status: number; body: unknown },
+): string[] {
+  const label = `${request.method} ${request.path} → ${response.status}`;
+  const routeDef = findRoute(collection, request.method, request.path);
+  if (!routeDef) return [`${label}: no route declares ${request.method} ${request.path}`];
+
+  if (response.status < 400) {
+    // Streamed events are validated by the adapter as they are sent
+    if (routeDef.streamSchema || !routeDef.responseSchema) return [];
+    return schemaProblems(label, "response", routeDef.responseSchema, response.body);
+  }
+
+  const envelope = errorEnvelope.safeParse(response.body);
+  if (!envelope.success) return [`${label}: error body is not a { code, message } envelope`];
+
+  const { code } = envelope.data;
+  if (BUILT_IN_ERRORS.has(code)) return [];
+
+  const errorClass = routeDef.errors?.find((declared) => declared.code === code);
+  if (!errorClass) return [`${label}: ${code} is not declared by the route or its middleware`];
+  if (errorClass.status !== response.status) return [`${label}: ${code} is declared with status ${errorClass.status}`];
+  if (!errorClass.dataSchema) return [];
+  return schemaProblems(label, `${code} data`, errorClass.dataSchema, (response.body as { data?: unknown }).data);
+}
+
+function schemaProblems(label: string, what: string, schema: z.ZodTypeAny, value: unknown): string[] {
+  const result = schema.safeParse(value);
+  return result.success ? [] : [`${label}: ${what} does not match the schema\n${z.prettifyError(result.error)}`];
+}
+
+// "/api/gardens/:id" → /^\/api\/gardens\/[^/]+$/
+function pathPattern(path: string): RegExp {
+  const source = path
+    .split("/")
+    .map((segment) => (segment.startsWith(":") ? "[^/]+" : segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")))
+    .join("/");
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,165 @@
+import { HTTPException } from "hono/http-exception";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import type { z } from "zod";
+
+export type ValidationSource = "params" | "query" | "body";
+
+export interface ValidationIssue {
+  /** Location of the failing value, prefixed by its source, e.g. ["body", "address", "zip"] */
+  path: (string | number)[];
+  message: string;
+  /** zod issue code, e.g. "invalid_type" */
+  code: string;
+}
+
+export type ValidationErrorBody = {
+  code: "VALIDATION_ERROR";
+  message: string;
+  issues: ValidationIssue[];
+};
+
+export type ForbiddenErrorBody = {
+  code: "FORBIDDEN";
+  message: string;
+};
+
+export type RateLimitedErrorBody = {
+  code: "RATE_LIMITED";
+  message: string;
+  // Seconds until the request may be retried, also sent as Retry-After
+  retryAfter: number;
+};
+
+export type HttpErrorBody = {
+  code: "HTTP_ERROR" | "INTERNAL_SERVER_ERROR";
+  message: string;
+};
+
+/** Every error response the API sends has this envelope */
+export type ErrorBody = ValidationErrorBody | ForbiddenErrorBody | RateLimitedErrorBody | HttpErrorBody;
+
+const VALIDATION_MESSAGES: Record<ValidationSource, string> = {
+  params: "Invalid path parameters",
+  query: "Invalid query parameters",
+  body: "Invalid request body",
+};
+
+export class ValidationError extends HTTPException {
+  readonly issues: ValidationIssue[];
+
+  constructor(source: ValidationSource, error: z.ZodError) {
+    super(400, { message: VALIDATION_MESSAGES[source] });
+    this.issues = error.issues.map((issue) => ({
+      path: [source, ...issue.path.map((key) => (typeof key === "symbol" ? String(key) : key))],
+      message: issue.message,
+      code: issue.code,
+    }));
+  }
+}
+
+// Thrown by the adapter when one of a route's policies denies the request
+export class ForbiddenError extends HTTPException {
+  constructor(readonly policy: string) {
+    super(403, { message: `Requires ${policy}` });
+  }
+}
+
+// Thrown by the adapter when a request exceeds one of the route's rate limits
+export class RateLimitError extends HTTPException {
+  constructor(readonly retryAfter: number) {
+    super(429, { message: "Too many requests" });
+  }
+}
+
+export type AppErrorBody<Code extends string, Data> = [Data] extends [never]
+  ? { code: Code; message: string }
+  : { code: Code; message: string; data: Data };
+
+/** Base class of the domain errors created by `defineError` */
+export class AppError<Code extends string = string, Data = unknown> extends Error {
+  constructor(
+    readonly code: Code,
+    readonly status: ContentfulStatusCode,
+    message: string,
+    readonly data?: Data,
+  ) {
+    super(message);
+    this.name = code;
+  }
+
+  toBody(): AppErrorBody<Code, Data> {
+    const body = { code: this.code, message: this.message };
+    return (this.data === undefined ? body : { ...body, data: this.data }) as AppErrorBody<Code, Data>;
+  }
+}
+
+type AppErrorArgs<Data> = [Data] extends [never]
+  ? [message?: string]
+  : [data: Data, message?: string];
+
+export interface AppErrorClass<Code extends string = string, Data = unknown> {
+  new (...args: AppErrorArgs<Data>): AppError<Code, Data>;
+  readonly code: Code;
+  readonly status: ContentfulStatusCode;
+  readonly dataSchema?: z.ZodTypeAny;
+}
+
+export type ErrorBodyOf<E> = E extends AppErrorClass<infer Code, infer Data> ? AppErrorBody<Code, Data> : never;
+
+/**
+ * Declare a domain error that routes list in `errors` and throw from handlers.
+ *
+ *   export const Conflict = defineError("CONFLICT", {
+ *     status: 409,
+ *     data: z.object({ existingId: z.string() }),
+ *   });
+ *   throw new Conflict({ existingId: garden.id });
+ */
+export function defineError<const Code extends string, S extends z.ZodTypeAny = never>(
+  code: Code,
+  options: { status: ContentfulStatusCode; message?: string; data?: S },
+): AppErrorClass<Code, [S] extends [never] ? never : z.output<S>> {
+  const defaultMessage = options.message ?? code;
+
+  return class extends AppError<Code, unknown> {
+    static readonly code = code;
+    static readonly status = options.status;
+    static readonly dataSchema = options.data;
+
+    constructor(...args: unknown[]) {
+      const [data, message] = options.data ? args : [undefined, ...args];
+      super(code, options.status, (message as string | undefined) ?? defaultMessage, data);
+    }
+  } as unknown as AppErrorClass<Code, [S] extends [never] ? never : z.output<S>>;
+}
+
+export const NotFound = defineError("NOT_FOUND", { status: 404, message: "Not found" });
+
+export function toErrorResponse(err: Error): { status: ContentfulStatusCode; body: ErrorBody } {
+  if (err instanceof ValidationError) {
+    return {
+      status: 400,
+      body: { code: "VALIDATION_ERROR", message: err.message, issues: err.issues },
+    };
+  }
+
+  if (err instanceof ForbiddenError) {
+    return { status: 403, body: { code: "FORBIDDEN", message: err.message } };
+  }
+
+  if (err instanceof RateLimitError) {
+    return { status: 429, body: { code: "RATE_LIMITED", message: err.message, retryAfter: err.retryAfter } };
+  }
+
+  if (err instanceof HTTPException) {
+    return {
+      status: err.status,
+      body: { code: err.status >= 500 ? "INTERNAL_SERVER_ERROR" : "HTTP_ERROR", message: err.message },
+    };
+  }
+
+  return {
+    status: 500,
+    body: { code: "INTERNAL_SERVER_ERROR", message: "Internal server error" },
+  };
+}
@@ -1,59 +1,260 @@
 import type { Context, Env, Hono } from "hono";
 import { HTTPException } from "hono/http-exception";
+import { streamSSE } from "hono/streaming";
 import { z } from "zod";
 
-import type { RouteCollection, RouteDef } from "./route.js";
+import { AppError, ForbiddenError, RateLimitError, toErrorResponse, ValidationError } from "./errors.js";
+import { requestLog } from "./logger.js";
+import { runMiddleware } from "./middleware.js";
+import { decodeQuery } from "./query.js";
+import { consumeRateLimits, mostLimiting, type RateLimitState } from "./rate-limit.js";
+import type { BodyType, RouteCollection, RouteDef } from "./route.js";
+import { waitUntil } from "./wait-until.js";
 
 type HttpMethod = "GET" | "POST" | "PUT" | "DELETE" | "PATCH";
 type SchemaShape = Record<string, z.ZodTypeAny>;
 
+// Form and multipart routes also take JSON, which ApiClient sends when no file is attached
+const ACCEPTED_CONTENT_TYPES: Record<Exclude<BodyType, "binary">, string[]> = {
+  json: ["application/json"],
+  form: ["application/json", "application/x-www-form-urlencoded", "multipart/form-data"],
+  multipart: ["application/json", "multipart/form-data"],
+};
+
+// Installed with `app.onError`: every error becomes the shared error envelope
+export function handleError(err: Error, c: Context): Response {
+  const { status, body } = toErrorResponse(err);
+  // Client errors are part of the contract; the request entry records their status
+  if (status >= 500) {
+    requestLog(c).error("Request failed", { error: err });
+  } else {
+    requestLog(c).debug("Request rejected", { code: body.code, message: body.message });
+  }
+  return c.json(body, status);
+}
+
 export function registerToHono<E extends Env>(
   app: Hono<E>,
   routeCollection: RouteCollection<Context<E>, RouteDef[]>
 ): void {
   for (const routeDef of routeCollection.routes) {
     /* eslint-disable @typescript-eslint/no-unsafe-assignment, @typescript-eslint/unbound-method -- RouteDef uses `any` by design */
-    const { path, method, querySchema, bodySchema, handler } = routeDef;
+    const { path, method, middleware = [], paramsSchema, querySchema, bodySchema, bodyType = "json", responseSchema, streamSchema, errors = [], policies = [], rateLimits = [], rateLimitStore, handler } = routeDef;
     const httpMethod = (method as string).toLowerCase() as Lowercase<HttpMethod>;
+    // IP and user limits count every request, even one that fails validation; a function of the input needs it parsed first
+    const requestLimits = rateLimits.filter((rateLimit) => typeof rateLimit.by !== "function");
+    const inputLimits = rateLimits.filter((rateLimit) => typeof rateLimit.by === "function");
 
     app[httpMethod](path, async (c) => {
-      const params = c.req.param();
+      // Declared errors from middlewares or the handler become typed error responses
+      const serializeDeclared = (err: unknown) => {
+        if (!(err instanceof AppError)) throw err;
+        if (!errors.some((errorClass) => err instanceof errorClass)) {
+          throw contractViolation(c, `Undeclared error ${err.code} thrown by ${method} ${path}`);
+        }
+        return c.json(err.toBody(), err.status);
+      };
+
+      let added: object;
+      try {
+        added = await runMiddleware(middleware, c);
+      } catch (err) {
+        return serializeDeclared(err);
+      }
+
+      const log = requestLog(c).child({ route: path });
+      const counted = rateLimitStore && requestLimits.length > 0
+        ? await consumeRateLimits(rateLimitStore, `${method} ${path}`, requestLimits, { ...added, c, log })
+        : null;
+      reportRateLimit(c, counted);
+
+      let parsedParams: Record<string, unknown> = c.req.param();
+      if (paramsSchema) {
+        // Loose so params without a schema pass through as strings
+        const schema = z.looseObject(paramsSchema as SchemaShape);
+        const result = schema.safeParse(parsedParams);
+        if (!result.success) {
+          throw new ValidationError("params", result.error);
+        }
+        parsedParams = result.data;
+      }
 
       let parsedQuery = {};
       if (querySchema) {
-        const rawQuery = c.req.query();
+        const rawQuery = decodeQuery(c.req.queries(), querySchema as SchemaShape);
         const schema = z.object(querySchema as SchemaShape);
         const result = schema.safeParse(rawQuery);
         if (!result.success) {
-          throw new HTTPException(400, { message: "Invalid query parameters" });
+          throw new ValidationError("query", result.error);
         }
         parsedQuery = result.data;
       }
 
-      let parsedBody = {};
-      if (bodySchema) {
-        const rawBody: unknown = await c.req.json().catch(() => ({}));
+      let parsedBody: unknown = {};
+      if (bodyType === "binary") {
+        parsedBody = await c.req.blob();
+      } else if (bodySchema) {
+        const rawBody = await readBody(c, bodyType, bodySchema as SchemaShape);
         const schema = z.object(bodySchema as SchemaShape);
         const result = schema.safeParse(rawBody);
         if (!result.success) {
-          throw new HTTPException(400, { message: "Invalid request body" });
+          throw new ValidationError("body", result.error);
         }
         parsedBody = result.data;
       }
 
-      const response: unknown = await handler({
-        params,
+      const ctx = {
+        ...added,
+        params: parsedParams,
         query: parsedQuery,
         body: parsedBody,
         c: c as unknown as Context<E>,
-      });
+        log,
+        waitUntil: (task: Promise<unknown>) => waitUntil(task, log),
+      };
+
+      if (rateLimitStore && inputLimits.length > 0) {
+        const state = await consumeRateLimits(rateLimitStore, `${method} ${path}`, inputLimits, ctx);
+        reportRateLimit(c, mostLimiting([counted, state]));
+      }
+
+      let response: unknown;
+      try {
+        // In order, so a cheap role check can guard a lookup-based ownership check
+        for (const policy of policies) {
+          if (!await policy.check(ctx)) throw new ForbiddenError(policy.description);
+        }
+        response = await handler(ctx);
+      } catch (err) {
+        return serializeDeclared(err);
+      }
+
+      if (streamSchema) {
+        return streamEvents(c, response as AsyncIterable<unknown> | Iterable<unknown>, (event) => {
+          const result = streamSchema.safeParse(event);
+          if (!result.success) {
+            throw contractViolation(c, `Invalid event from ${method} ${path}:\n${z.prettifyError(result.error)}`);
+          }
+          return result.data;
+        }, (err) => {
+          if (err instanceof AppError && errors.some((errorClass) => err instanceof errorClass)) {
+            return { status: err.status, body: err.toBody() };
+          }
+          if (err instanceof AppError) {
+            return toErrorResponse(contractViolation(c, `Undeclared error ${err.code} thrown by ${method} ${path}`));
+          }
+          requestLog(c).error("Stream failed", { error: err });
+          return toErrorResponse(err instanceof Error ? err : new Error(String(err)));
+        });
+      }
 
       // Allow handlers to return raw Response objects (for streaming, etc.)
       if (response instanceof Response) {
         return response;
       }
 
+      if (responseSchema) {
+        const result = responseSchema.safeParse(response);
+        if (!result.success) {
+          throw contractViolation(c, `Invalid response from ${method} ${path}:\n${z.prettifyError(result.error)}`);
+        }
+        return c.json(result.data);
+      }
+
       return c.json(response);
     });
   }
 }
+
+// Set the RateLimit headers, and respond 429 once the reported limit is exceeded
+function reportRateLimit(c: Context, state: RateLimitState | null): void {
+  if (!state) return;
+  const reset = Math.ceil((state.resetAt - Date.now()) / 1000);
+  c.header("RateLimit-Limit", String(state.limit));
+  c.header("RateLimit-Remaining", String(Math.max(state.remaining, 0)));
+  c.header("RateLimit-Reset", String(reset));
+  if (state.remaining < 0) {
+    c.header("Retry-After", String(reset));
+    throw new RateLimitError(reset);
+  }
+}
+
+// Decode the body by its content type; malformed payloads are 400s, unexpected encodings 415s
+async function readBody(c: Context, bodyType: Exclude<BodyType, "binary">, shape: SchemaShape): Promise<unknown> {
+  const contentType = c.req.header("Content-Type")?.split(";")[0].trim().toLowerCase();
+  if (!contentType) {
+    // A missing body validates like `{}`, so bodies with only optional fields can be omitted
+    if (await c.req.text() === "") return {};
+    throw new HTTPException(415, { message: "Missing Content-Type" });
+  }
+
+  const accepted = ACCEPTED_CONTENT_TYPES[bodyType];
+  if (!accepted.includes(contentType)) {
+    throw new HTTPException(415, { message: `Unsupported Content-Type ${contentType}, expected ${accepted.join(" or ")}` });
+  }
+
+  if (contentType === "application/json") {
+    const text = await c.req.text();
+    if (text === "") return {};
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new HTTPException(400, { message: "Malformed JSON body" });
+    }
+  }
+
+  let form: Record<string, string | File | (string | File)[]>;
+  try {
+    form = await c.req.parseBody({ all: true });
+  } catch {
+    throw new HTTPException(400, { message: "Malformed form body" });
+  }
+  // Repeated fields arrive as arrays; wrap single values of list fields so one file still makes a list
+  return Object.fromEntries(Object.entries(form).map(([key, value]) => [
+    key,
+    expectsArray(shape[key]) && !Array.isArray(value) ? [value] : value,
+  ]));
+}
+
+function expectsArray(schema: z.ZodTypeAny | undefined): boolean {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable || schema instanceof z.ZodDefault) {
+    return expectsArray(schema.unwrap() as z.ZodTypeAny);
+  }
+  return schema instanceof z.ZodArray;
+}
+
+/**
+ * Send each event as an SSE `data:` line of JSON.
+ * The status is already sent when an event fails, so errors are reported
+ * in-band as a final `event: error` carrying `{ status, body }`.
+ */
+function streamEvents(
+  c: Context,
+  events: AsyncIterable<unknown> | Iterable<unknown>,
+  parse: (event: unknown) => unknown,
+  describeError: (err: unknown) => { status: number; body: { code: string; message: string } },
+): Response {
+  return streamSSE(c, async (stream) => {
+    const iterator = Symbol.asyncIterator in events ? events[Symbol.asyncIterator]() : events[Symbol.iterator]();
+    // Stop the handler's generator when the client disconnects
+    stream.onAbort(() => void iterator.return?.());
+
+    try {
+      for (let next = await iterator.next(); !next.done && !stream.aborted; next = await iterator.next()) {
+        await stream.writeSSE({ data: JSON.stringify(parse(next.value)) });
+      }
+    } catch (err) {
+      await stream.writeSSE({ event: "error", data: JSON.stringify(describeError(err)) });
+    }
+  });
+}
+
+// A route breaking its own declared contract is a bug: fail loudly in dev,
+// but in production only log it and give the client a generic 500
+function contractViolation(c: Context, message: string): HTTPException {
+  if (process.env.NODE_ENV === "production") {
+    requestLog(c).error("Contract violation", { detail: message });
+    return new HTTPException(500, { message: "Internal server error" });
+  }
+  return new HTTPException(500, { message });
+}
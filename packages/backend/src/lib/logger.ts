@@ -0,0 +1,86 @@
+import type { Context } from "hono";
+import { createMiddleware } from "hono/factory";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFields = Record<string, unknown>;
+// What a writer receives; the format logs scripts read, see shared/logs
+export type LogEntry = { level: LogLevel; message: string } & LogFields;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  // A logger that adds `fields` to every entry
+  child(fields: LogFields): Logger;
+}
+
+// Set by the viewer-request function (or the dev proxy) and echoed to the client
+export const REQUEST_ID_HEADER = "x-request-id";
+
+const SEVERITY: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+// One JSON line per entry on stdout, which Lambda sends to CloudWatch as is
+let write = (entry: LogEntry): void => {
+  process.stdout.write(`${JSON.stringify(entry)}\n`);
+};
+
+// The dev server swaps in a readable format; returns the writer it replaced, so tests can put it back
+export function setLogWriter(writer: (entry: LogEntry) => void): (entry: LogEntry) => void {
+  const previous = write;
+  write = writer;
+  return previous;
+}
+
+export function createLogger(fields: LogFields = {}): Logger {
+  const log = (level: LogLevel) => (message: string, extra: LogFields = {}) => {
+    const threshold = (process.env.LOG_LEVEL as LogLevel | undefined) ?? "info";
+    if (SEVERITY[level] < SEVERITY[threshold]) return;
+    write({ level, message, ...fields, ...serializeErrors(extra) });
+  };
+
+  return {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+    child: (more) => createLogger({ ...fields, ...more }),
+  };
+}
+
+// Errors stringify as {}, keep what is useful for debugging
+function serializeErrors(fields: LogFields): LogFields {
+  return Object.fromEntries(Object.entries(fields).map(([key, value]) => [
+    key,
+    value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value,
+  ]));
+}
+
+type LogEnv = { Variables: { log?: Logger } };
+
+/**
+ * The request's logger, tagged with its request id, method, path and branch.
+ * Created by `logRequests`, or on first use for apps without it, e.g. tests.
+ */
+export function requestLog(c: Context): Logger {
+  const context = c as unknown as Context<LogEnv>;
+  let log = context.get("log");
+  if (!log) {
+    const requestId = c.req.header(REQUEST_ID_HEADER) ?? crypto.randomUUID();
+    log = createLogger({ requestId, method: c.req.method, path: c.req.path, branch: c.req.header("x-branch") });
+    context.set("log", log);
+    c.header(REQUEST_ID_HEADER, requestId);
+  }
+  return log;
+}
+
+// Logs one entry per request with its route, status and duration; 4xx as warnings, 5xx as errors
+export const logRequests = createMiddleware(async (c, next) => {
+  const start = performance.now();
+  const log = requestLog(c);
+  await next();
+
+  const status = c.res.status;
+  const level = status >= 500 ? "error" : status >= 400 ? "warn" : "info";
+  log[level]("Request", { route: c.req.routePath, status, durationMs: Math.round(performance.now() - start) });
+});
@@ -0,0 +1,80 @@
+import type { AppErrorClass } from "./errors.js";
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+type ErrorList = readonly AppErrorClass<string, any>[];
+
+export type Middleware<
+  Context = any,
+  Added extends object = any,
+  Errors extends ErrorList = ErrorList,
+> = {
+  // Middlewares this one builds on; they run first and their fields are part of `Added`
+  middleware?: MiddlewareList;
+  errors?: Errors;
+  // Method syntax is bivariant, avoiding contravariance issues when collecting middlewares
+  handler(ctx: { c: Context }): Promise<Added | void> | Added | void;
+};
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+export type MiddlewareList = readonly Middleware[];
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+// [auth, flags] → { user: User } & { flags: Flags }
+export type MiddlewareContext<M> = M extends readonly [infer Head, ...infer Tail]
+  ? (Head extends Middleware<unknown, infer Added> ? Added : unknown) & MiddlewareContext<Tail>
+  : unknown;
+
+// Every error class declared by the middlewares (and the middlewares they build on)
+export type MiddlewareErrors<M extends MiddlewareList> = NonNullable<M[number]["errors"]>[number];
+
+export function middlewareFactory<C>() {
+  return function middleware<
+    const M extends MiddlewareList = [],
+    const E extends ErrorList = [],
+    A extends object | void = void,
+  >(config: {
+    middleware?: M;
+    // Domain errors the handler may throw; routes using this middleware declare them implicitly
+    errors?: E;
+    handler: (ctx: Simplify<{ c: C } & MiddlewareContext<M>>) => Promise<A> | A;
+  }): Middleware<
+    C,
+    Simplify<MiddlewareContext<M> & (A extends object ? A : unknown)>,
+    readonly (E[number] | MiddlewareErrors<M>)[]
+  > {
+    return {
+      middleware: config.middleware,
+      errors: [...config.errors ?? [], ...collectMiddlewareErrors(config.middleware ?? [])],
+      handler: config.handler as unknown as Middleware["handler"],
+    };
+  };
+}
+
+export function collectMiddlewareErrors(middlewares: MiddlewareList): AppErrorClass[] {
+  return middlewares.flatMap((m) => [...m.errors ?? []]);
+}
+
+/**
+ * Run a middleware chain and merge the fields each one adds.
+ * `results` is shared across the request so a middleware listed twice
+ * (e.g. by a route and by a middleware it uses) only runs once.
+ */
+export async function runMiddleware<C>(
+  middlewares: MiddlewareList,
+  c: C,
+  results = new Map<Middleware, object>(),
+): Promise<object> {
+  const ctx = {};
+  for (const m of middlewares) {
+    let added = results.get(m);
+    if (!added) {
+      const deps = await runMiddleware(m.middleware ?? [], c, results);
+      const own: unknown = await m.handler({ ...deps, c });
+      added = { ...deps, ...own as object | undefined };
+      results.set(m, added);
+    }
+    Object.assign(ctx, added);
+  }
+  return ctx;
+}
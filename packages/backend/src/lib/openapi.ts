@@ -0,0 +1,239 @@
+import { z } from "zod";
+
+import type { AppErrorClass } from "./errors.js";
+import type { BodyType, RouteCollection, RouteDef } from "./route.js";
+
+type JsonSchema = Record<string, unknown>;
+type SchemaShape = Record<string, z.ZodTypeAny>;
+
+interface OpenApiParameter {
+  name: string;
+  in: "path" | "query";
+  required: boolean;
+  style?: "deepObject";
+  explode?: true;
+  schema: JsonSchema;
+}
+
+interface OpenApiResponse {
+  description: string;
+  content?: Record<string, { schema: JsonSchema }>;
+}
+
+interface OpenApiOperation {
+  operationId: string;
+  parameters?: OpenApiParameter[];
+  requestBody?: { required: boolean; content: Record<string, { schema: JsonSchema }> };
+  responses: Record<string, OpenApiResponse>;
+}
+
+export interface OpenApiDocument {
+  openapi: "3.1.0";
+  info: { title: string; version: string };
+  paths: Record<string, Record<string, OpenApiOperation>>;
+  components: { schemas: Record<string, JsonSchema> };
+}
+
+const BODY_CONTENT_TYPES: Record<BodyType, string> = {
+  json: "application/json",
+  form: "application/x-www-form-urlencoded",
+  multipart: "multipart/form-data",
+  binary: "application/octet-stream",
+};
+
+// Envelopes from errors.ts, shared by every operation
+const COMPONENT_SCHEMAS: Record<string, JsonSchema> = {
+  ValidationIssue: {
+    type: "object",
+    properties: {
+      path: { type: "array", items: { type: ["string", "number"] } },
+      message: { type: "string" },
+      code: { type: "string" },
+    },
+    required: ["path", "message", "code"],
+  },
+  ValidationError: {
+    type: "object",
+    properties: {
+      code: { const: "VALIDATION_ERROR" },
+      message: { type: "string" },
+      issues: { type: "array", items: { $ref: "#/components/schemas/ValidationIssue" } },
+    },
+    required: ["code", "message", "issues"],
+  },
+  Forbidden: {
+    type: "object",
+    properties: {
+      code: { const: "FORBIDDEN" },
+      message: { type: "string" },
+    },
+    required: ["code", "message"],
+  },
+  RateLimited: {
+    type: "object",
+    properties: {
+      code: { const: "RATE_LIMITED" },
+      message: { type: "string" },
+      retryAfter: { type: "integer", description: "Seconds until the request may be retried" },
+    },
+    required: ["code", "message", "retryAfter"],
+  },
+  Error: {
+    type: "object",
+    properties: {
+      code: { enum: ["HTTP_ERROR", "INTERNAL_SERVER_ERROR"] },
+      message: { type: "string" },
+    },
+    required: ["code", "message"],
+  },
+};
+
+/**
+ * Describe a route collection as an OpenAPI 3.1 document.
+ * Request schemas are documented by what clients send (zod input),
+ * response schemas by what they receive (zod output).
+ */
+export function generateOpenApi(
+  collection: RouteCollection<unknown, RouteDef[]>,
+  info: { title: string; version: string },
+): OpenApiDocument {
+  const paths: OpenApiDocument["paths"] = {};
+
+  for (const routeDef of collection.routes) {
+    const path = routeDef.path as string;
+    const method = routeDef.method as string;
+    const openApiPath = path.replace(/:(\w+)/g, "{$1}");
+    paths[openApiPath] = {
+      ...paths[openApiPath],
+      [method.toLowerCase()]: describeOperation(routeDef, path, method),
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info,
+    paths,
+    components: { schemas: COMPONENT_SCHEMAS },
+  };
+}
+
+function describeOperation(routeDef: RouteDef, path: string, method: string): OpenApiOperation {
+  const { paramsSchema, querySchema, bodySchema, bodyType = "json", responseSchema, streamSchema, errors = [], policies = [], rateLimits = [] } = routeDef;
+
+  const parameters = [
+    ...describeParameters("path", pathParamsShape(path, paramsSchema)),
+    ...(querySchema ? describeParameters("query", querySchema) : []),
+  ];
+
+  const responses: Record<string, OpenApiResponse> = {
+    200: streamSchema
+      // Each SSE `data` line is one JSON event; errors mid-stream arrive as `event: error`
+      ? { description: "Server-sent events", content: { "text/event-stream": { schema: toJsonSchema(streamSchema, "output") } } }
+      : jsonResponse("OK", responseSchema ? toJsonSchema(responseSchema, "output") : {}),
+  };
+
+  if (paramsSchema || querySchema || bodySchema) {
+    responses[400] = jsonResponse("Invalid request", { $ref: "#/components/schemas/ValidationError" });
+  }
+
+  // readBody rejects other encodings before validating; binary bodies are read as they are
+  if (bodySchema && bodyType !== "binary") {
+    responses[415] = jsonResponse(`Content-Type is not ${BODY_CONTENT_TYPES[bodyType]}`, { $ref: "#/components/schemas/Error" });
+  }
+
+  if (policies.length > 0) {
+    responses[403] = jsonResponse(`Requires ${policies.map((p) => p.description).join(" and ")}`, { $ref: "#/components/schemas/Forbidden" });
+  }
+
+  if (rateLimits.length > 0) {
+    const limits = rateLimits.map((r) => `${r.limit} per ${r.window}s by ${typeof r.by === "function" ? "key" : r.by}`);
+    responses[429] = jsonResponse(`Exceeds ${limits.join(" or ")}`, { $ref: "#/components/schemas/RateLimited" });
+  }
+
+  for (const [status, errorClasses] of groupByStatus(errors)) {
+    const schemas = errorClasses.map(describeError);
+    // Declared 400s and 403s share the status with validation and policy errors
+    const all = status in responses ? [responses[status].content!["application/json"].schema, ...schemas] : schemas;
+    responses[status] = jsonResponse(errorClasses.map((e) => e.code).join(" | "), all.length === 1 ? all[0] : { oneOf: all });
+  }
+
+  responses[500] = jsonResponse("Internal server error", { $ref: "#/components/schemas/Error" });
+
+  return {
+    operationId: operationId(path, method),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...describeRequestBody(bodyType, bodySchema),
+    responses,
+  };
+}
+
+// A body whose fields are all optional may be left out, the adapter then validates `{}`
+function describeRequestBody(bodyType: BodyType, bodySchema: SchemaShape | undefined): Pick<OpenApiOperation, "requestBody"> {
+  if (bodyType === "binary") {
+    return { requestBody: { required: true, content: { [BODY_CONTENT_TYPES.binary]: { schema: { type: "string", format: "binary" } } } } };
+  }
+  if (!bodySchema) return {};
+  const schema = toJsonSchema(z.object(bodySchema), "input");
+  const required = Array.isArray(schema.required) && schema.required.length > 0;
+  return { requestBody: { required, content: { [BODY_CONTENT_TYPES[bodyType]]: { schema } } } };
+}
+
+// Every path param is a string unless the route declares a schema for it
+function pathParamsShape(path: string, paramsSchema: SchemaShape | undefined): SchemaShape {
+  const names = [...path.matchAll(/:(\w+)/g)].map((match) => match[1]);
+  return Object.fromEntries(names.map((name) => [name, paramsSchema?.[name] ?? z.string()]));
+}
+
+function describeParameters(location: "path" | "query", shape: SchemaShape): OpenApiParameter[] {
+  const schema = toJsonSchema(z.object(shape), "input") as { properties?: Record<string, JsonSchema>; required?: string[] };
+  return Object.entries(schema.properties ?? {}).map(([name, property]) => ({
+    name,
+    in: location,
+    required: location === "path" || (schema.required ?? []).includes(name),
+    // Objects use bracket notation (filter[size]=3); arrays the default repeated keys
+    ...(location === "query" && property.type === "object" ? { style: "deepObject" as const, explode: true as const } : {}),
+    schema: property,
+  }));
+}
+
+function describeError(errorClass: AppErrorClass): JsonSchema {
+  return {
+    type: "object",
+    properties: {
+      code: { const: errorClass.code },
+      message: { type: "string" },
+      ...(errorClass.dataSchema ? { data: toJsonSchema(errorClass.dataSchema, "output") } : {}),
+    },
+    required: errorClass.dataSchema ? ["code", "message", "data"] : ["code", "message"],
+  };
+}
+
+function groupByStatus(errors: readonly AppErrorClass[]): Map<number, AppErrorClass[]> {
+  const groups = new Map<number, AppErrorClass[]>();
+  for (const errorClass of new Set(errors)) {
+    groups.set(errorClass.status, [...groups.get(errorClass.status) ?? [], errorClass]);
+  }
+  return groups;
+}
+
+function jsonResponse(description: string, schema: JsonSchema): OpenApiResponse {
+  return { description, content: { "application/json": { schema } } };
+}
+
+function toJsonSchema(schema: z.ZodTypeAny, io: "input" | "output"): JsonSchema {
+  // Types JSON Schema cannot express (dates, transforms) are documented as "any"
+  const jsonSchema: JsonSchema = z.toJSONSchema(schema, { io, unrepresentable: "any" });
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+// "GET", "/api/gardens/:gardenId/rocks" → "getApiGardensByGardenIdRocks"
+function operationId(path: string, method: string): string {
+  const words = path
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => (segment.startsWith(":") ? `By-${segment.slice(1)}` : segment))
+    .flatMap((segment) => segment.split(/[^a-zA-Z0-9]+/))
+    .filter(Boolean);
+  return method.toLowerCase() + words.map((word) => word[0].toUpperCase() + word.slice(1)).join("");
+}
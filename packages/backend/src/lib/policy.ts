@@ -0,0 +1,46 @@
+import type { Middleware, MiddlewareList } from "./middleware.js";
+import type { RouteCollection, RouteDef } from "./route.js";
+
+/**
+ * A rule a request has to pass before the handler runs. `check` gets the same
+ * context as the handler: validated params, query and body plus the fields
+ * middlewares add, so a policy that reads `user` only fits routes that have one.
+ * Written inline on a route as `{ description, check }`, the context is typed
+ * from the route; `policy()` is for reusable rules with an explicit context.
+ */
+export type Policy<Ctx = any> = { // eslint-disable-line @typescript-eslint/no-explicit-any
+  // Shown in 403 messages and the policy matrix, e.g. "role admin"
+  description: string;
+  check: (ctx: Ctx) => Promise<boolean> | boolean;
+};
+
+export function policy<Ctx>(description: string, check: (ctx: Ctx) => Promise<boolean> | boolean): Policy<Ctx> {
+  return { description, check };
+}
+
+// Passes when any of the policies does, e.g. admins or the owner
+export function anyOf<Ctx>(...policies: Policy<Ctx>[]): Policy<Ctx> {
+  return policy(policies.map((p) => p.description).join(" or "), async (ctx) => {
+    for (const p of policies) {
+      if (await p.check(ctx)) return true;
+    }
+    return false;
+  });
+}
+
+export type AccessRow = { method: string; path: string; session: boolean; policies: string[] };
+
+// Who may call each route, for review: whether it requires a session and which policies it checks
+export function describeAccess(collection: RouteCollection<unknown, RouteDef[]>, sessionMiddleware: Middleware): AccessRow[] {
+  return collection.routes.map((routeDef) => ({
+    method: routeDef.method as string,
+    path: routeDef.path as string,
+    session: usesMiddleware(routeDef.middleware ?? [], sessionMiddleware),
+    policies: (routeDef.policies ?? []).map((p) => p.description),
+  }));
+}
+
+// Directly or through the middlewares a middleware builds on
+function usesMiddleware(middlewares: MiddlewareList, target: Middleware): boolean {
+  return middlewares.some((m) => m === target || usesMiddleware(m.middleware ?? [], target));
+}
@@ -0,0 +1,92 @@
+import { z } from "zod";
+
+type SchemaShape = Record<string, z.ZodTypeAny>;
+
+/**
+ * Read a query written with encodeQuery from shared/query-encoding. Decoding
+ * is driven by the query schema: numbers, booleans, bigints and dates are
+ * coerced, a single value becomes a one-item array when the schema expects a
+ * list, and a required list without values becomes `[]`. Keys with a `__proto__`,
+ * `constructor` or `prototype` segment are dropped, so a query can never reach
+ * Object.prototype.
+ */
+export function decodeQuery(queries: Record<string, string[]>, shape: SchemaShape): Record<string, unknown> {
+  const raw: Record<string, unknown> = {};
+  for (const [key, values] of Object.entries(queries)) {
+    const path = parseKey(key);
+    if (path.some((segment) => UNSAFE_SEGMENTS.has(segment))) continue;
+    setPath(raw, path, values.length === 1 ? values[0] : values);
+  }
+  // encodeQuery omits empty arrays
+  for (const [key, schema] of Object.entries(shape)) {
+    if (schema instanceof z.ZodArray && !Object.hasOwn(raw, key)) raw[key] = [];
+  }
+  return Object.fromEntries(Object.entries(raw).map(([key, value]) => [key, coerce(shape[key], value)]));
+}
+
+const UNSAFE_SEGMENTS = new Set(["__proto__", "constructor", "prototype"]);
+
+// "filter[size][max]" → ["filter", "size", "max"]
+function parseKey(key: string): string[] {
+  const match = /^([^[\]]+)((?:\[[^[\]]*\])+)$/.exec(key);
+  if (!match) return [key];
+  return [match[1], ...[...match[2].matchAll(/\[([^[\]]*)\]/g)].map((part) => part[1])];
+}
+
+function setPath(target: Record<string, unknown>, path: string[], value: unknown): void {
+  const [key, ...rest] = path;
+  if (rest.length === 0) {
+    target[key] = value;
+    return;
+  }
+  const existing = target[key];
+  const child = typeof existing === "object" && existing !== null && !Array.isArray(existing)
+    ? existing as Record<string, unknown>
+    : {};
+  target[key] = child;
+  setPath(child, rest, value);
+}
+
+// Turn decoded strings into what the schema expects; anything that does not fit is left for zod to report
+function coerce(schema: z.ZodTypeAny | undefined, value: unknown): unknown {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable || schema instanceof z.ZodDefault) {
+    return coerce(schema.unwrap() as z.ZodTypeAny, value);
+  }
+
+  if (schema instanceof z.ZodArray) {
+    const items = Array.isArray(value) ? value as unknown[] : [value];
+    return items.map((item) => coerce(schema.element as z.ZodTypeAny, item));
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const object = typeof value === "string" ? parseJson(value) : value;
+    if (typeof object !== "object" || object === null || Array.isArray(object)) return object;
+    const shape = schema.shape as SchemaShape;
+    return Object.fromEntries(Object.entries(object).map(([key, item]) => [key, coerce(shape[key], item)]));
+  }
+
+  if (typeof value !== "string") return value;
+
+  if (schema instanceof z.ZodNumber) {
+    return value.trim() !== "" && !Number.isNaN(Number(value)) ? Number(value) : value;
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return value === "true" ? true : value === "false" ? false : value;
+  }
+  if (schema instanceof z.ZodBigInt) {
+    return /^-?\d+$/.test(value) ? BigInt(value) : value;
+  }
+  if (schema instanceof z.ZodDate) {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date;
+  }
+  return value;
+}
+
+function parseJson(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
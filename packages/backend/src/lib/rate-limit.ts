@@ -0,0 +1,133 @@
+import type { Context } from "hono";
+
+import { DynamoDBClient, UpdateItemCommand } from "@aws-sdk/client-dynamodb";
+
+import type { Logger } from "./logger.js";
+
+/**
+ * At most `limit` requests per `window` seconds for each key. `by` picks the
+ * key: the client IP, the signed-in user (the IP for signed-out requests), or
+ * a function of the handler context, e.g. the email a sign-in attempt names.
+ */
+export type RateLimit<Ctx = any> = { // eslint-disable-line @typescript-eslint/no-explicit-any
+  limit: number;
+  window: number;
+  by: "ip" | "user" | ((ctx: Ctx) => string);
+};
+
+/**
+ * Where request counts are kept. Windows are fixed, so a store only counts
+ * hits per key and may forget a key once it expires.
+ */
+export interface RateLimitStore {
+  // Count one request and return the key's count so far
+  increment(key: string, expiresAt: number): Promise<number>;
+}
+
+// Per process, for dev and tests; Lambda instances would each count separately
+export function memoryStore(): RateLimitStore {
+  const counters = new Map<string, { count: number; expiresAt: number }>();
+  let nextSweep = 0;
+
+  return {
+    increment: (key, expiresAt) => {
+      const now = Date.now();
+      if (now >= nextSweep) {
+        for (const [k, counter] of counters) {
+          if (counter.expiresAt <= now) counters.delete(k);
+        }
+        nextSweep = now + 60_000;
+      }
+
+      const counter = counters.get(key) ?? { count: 0, expiresAt };
+      counter.count++;
+      counters.set(key, counter);
+      return Promise.resolve(counter.count);
+    },
+  };
+}
+
+/**
+ * Shared by every Lambda instance: one item per key and window, counted with
+ * an atomic ADD and removed by the table's TTL on `expiresAt`.
+ */
+export function dynamoStore(options: { tableName: string; client?: DynamoDBClient }): RateLimitStore {
+  const client = options.client ?? new DynamoDBClient({});
+
+  return {
+    increment: async (key, expiresAt) => {
+      const result = await client.send(new UpdateItemCommand({
+        TableName: options.tableName,
+        Key: { pk: { S: key } },
+        UpdateExpression: "ADD #count :one SET expiresAt = if_not_exists(expiresAt, :expiresAt)",
+        ExpressionAttributeNames: { "#count": "count" },
+        // DynamoDB TTLs are epoch seconds
+        ExpressionAttributeValues: { ":one": { N: "1" }, ":expiresAt": { N: String(Math.ceil(expiresAt / 1000)) } },
+        ReturnValues: "UPDATED_NEW",
+      }));
+      return Number(result.Attributes?.count.N ?? 1);
+    },
+  };
+}
+
+// Set from the viewer's address by the edge (CloudFront or the dev proxy), which overwrites any the client sent
+export function clientIp(c: Context): string | undefined {
+  return c.req.header("x-client-ip") || undefined;
+}
+
+export type RateLimitState = {
+  limit: number;
+  remaining: number;
+  // Epoch milliseconds
+  resetAt: number;
+};
+
+/**
+ * Count a request against each of a route's limits. Returns the state to
+ * report to the client: the limit closest to running out or, when several are
+ * exceeded, the one that resets last. `remaining` is negative once exceeded.
+ *
+ * A limit keyed by IP is skipped, with a warning, for a request without one:
+ * counting those under one key would let a single client exhaust it for all.
+ * Returns null when every limit was skipped.
+ */
+export async function consumeRateLimits(
+  store: RateLimitStore,
+  route: string,
+  limits: readonly RateLimit[],
+  ctx: { c: Context; log: Logger },
+): Promise<RateLimitState | null> {
+  const now = Date.now();
+  const states = await Promise.all(limits.map(async (rateLimit, index) => {
+    const key = rateLimitKey(rateLimit, ctx);
+    if (key === null) {
+      ctx.log.warn("Rate limit skipped, the request has no X-Client-IP", { route, limit: index });
+      return null;
+    }
+    const windowMs = rateLimit.window * 1000;
+    const resetAt = (Math.floor(now / windowMs) + 1) * windowMs;
+    // e.g. "POST /api/auth/sign-in#0:ip:203.0.113.7@1767225600000"
+    const count = await store.increment(`${route}#${index}:${key}@${resetAt}`, resetAt);
+    return { limit: rateLimit.limit, remaining: rateLimit.limit - count, resetAt };
+  }));
+
+  return mostLimiting(states);
+}
+
+// The state to report of several: the one closest to running out, or the exceeded one that resets last
+export function mostLimiting(states: readonly (RateLimitState | null)[]): RateLimitState | null {
+  const counted = states.filter((state) => state !== null);
+  if (counted.length === 0) return null;
+  return counted.reduce((reported, state) => {
+    if (state.remaining < 0 && reported.remaining < 0) return state.resetAt > reported.resetAt ? state : reported;
+    return state.remaining < reported.remaining ? state : reported;
+  });
+}
+
+function rateLimitKey(rateLimit: RateLimit, ctx: { c: Context }): string | null {
+  if (typeof rateLimit.by === "function") return `key:${rateLimit.by(ctx)}`;
+  const user = (ctx as { user?: { id: string } }).user;
+  if (rateLimit.by === "user" && user) return `user:${user.id}`;
+  const ip = clientIp(ctx.c);
+  return ip ? `ip:${ip}` : null;
+}
@@ -1,10 +1,26 @@
 import { z } from "zod";
 
+import type { AppErrorClass, ErrorBody, ErrorBodyOf } from "./errors.js";
+import type { Logger } from "./logger.js";
+import {
+  collectMiddlewareErrors,
+  type Middleware,
+  type MiddlewareContext,
+  type MiddlewareErrors,
+  type MiddlewareList,
+} from "./middleware.js";
+import type { Policy } from "./policy.js";
+import type { RateLimit, RateLimitStore } from "./rate-limit.js";
+
 type HttpMethod = "GET" | "POST" | "PUT" | "DELETE" | "PATCH";
+// How the request body is encoded: "form" is urlencoded or multipart, "binary" is the raw body as a Blob
+export type BodyType = "json" | "form" | "multipart" | "binary";
 type SchemaShape = Record<string, z.ZodTypeAny>;
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type ErrorList = readonly AppErrorClass<string, any>[];
 
 // "/users/:id" → "id"
-type ExtractPathParams<T extends string> = T extends `${string}:${infer Param}/${infer Rest}`
+export type ExtractPathParams<T extends string> = T extends `${string}:${infer Param}/${infer Rest}`
   ? Param | ExtractPathParams<`/${Rest}`>
   : T extends `${string}:${infer Param}`
     ? Param
@@ -19,18 +35,46 @@ type OptionalUndefined<T> = {
 
 type Simplify<T> = { [K in keyof T]: T[K] };
 
+// "/users/:id" → { id: string }
+type PathParams<Path extends string> = { [K in ExtractPathParams<Path>]: string };
+
+// Schemas may only be declared for params that exist in the path
+type ParamsShape<Path extends string> = { [K in ExtractPathParams<Path>]?: z.ZodTypeAny };
+
+// Params without a schema stay strings, the rest take their schema's output type
+type InferParams<Path extends string, P> = [P] extends [never]
+  ? PathParams<Path>
+  : Simplify<Omit<PathParams<Path>, keyof P> & { [K in keyof P]: z.infer<P[K]> }>;
+
 // Infer zod schema shape, making optional fields actually optional
 type SafeInfer<T> = [T] extends [never]
   ? never
   : Simplify<OptionalUndefined<{ [K in keyof T]: z.infer<T[K]> }>>;
 
-export interface RouteContext<Context, Path extends string, Query, Body> {
-  params: { [K in ExtractPathParams<Path>]: string };
+// Binary bodies are not validated, the handler gets the raw Blob
+type RequestBody<BT extends BodyType, B> = BT extends "binary" ? Blob : SafeInfer<B>;
+
+// What the handler may return: anything without a response schema, the schema input otherwise
+type ResponseInput<S> = [S] extends [never] ? unknown : S extends z.ZodTypeAny ? z.input<S> : never;
+
+// What the client receives: the handler's return type, or the schema output (unknown keys stripped)
+type ResponseOutput<S, R> = [S] extends [never] ? R : S extends z.ZodTypeAny ? z.output<S> : never;
+
+export interface RouteContext<Context, Path extends string, Query, Body, Params = PathParams<Path>> {
+  params: Params;
   query: Query;
   body: Body;
   c: Context;
+  // Tagged with the request id and route, see README "Logging"
+  log: Logger;
+  // Finish `task` after the response is sent instead of delaying it, see README "Post-response tasks"
+  waitUntil: (task: Promise<unknown>) => void;
 }
 
+// What the handler and the route's policies receive
+type HandlerContext<C, Path extends string, Q, B, BT extends BodyType, Params, M> =
+  RouteContext<C, Path, SafeInfer<Q>, RequestBody<BT, B>, Params> & MiddlewareContext<M>;
+
 export type RouteDef<
   /* eslint-disable @typescript-eslint/no-explicit-any */
   Context = any,
@@ -39,51 +83,252 @@ export type RouteDef<
   Query = any,
   Body = any,
   Response = any,
+  Params = any,
+  Errors extends ErrorList = ErrorList,
+  Added = any,
   /* eslint-enable @typescript-eslint/no-explicit-any */
 > = {
   path: Path;
   method: Method;
   // Method syntax is bivariant, avoiding contravariance issues when collecting routes
-  handler(ctx: RouteContext<Context, Path, Query, Body>): Promise<Response> | Response;
+  handler(ctx: RouteContext<Context, Path, Query, Body, Params> & Added): Promise<Response> | Response;
+  middleware?: MiddlewareList;
+  paramsSchema?: SchemaShape;
   querySchema?: SchemaShape;
   bodySchema?: SchemaShape;
+  bodyType?: BodyType;
+  responseSchema?: z.ZodTypeAny;
+  // Set on streaming routes: the handler yields events the adapter validates and sends as SSE
+  streamSchema?: z.ZodTypeAny;
+  errors?: Errors;
+  // Checked after validation, before the handler; any denial is a 403
+  policies?: readonly Policy[];
+  // Counted after validation, before the policies; exceeding any is a 429
+  rateLimits?: readonly RateLimit[];
+  rateLimitStore?: RateLimitStore;
 };
 
-export function routeFactory<C>() {
-  return function route<
+// Shared by every route of a builder: path prefix, middlewares and prefix param schemas
+type RouteScope = {
+  prefix: string;
+  middleware: MiddlewareList;
+  params: SchemaShape;
+  // What `requireSession: true` runs, set by `routeFactory`
+  session?: Middleware;
+  // Where `rateLimit` counts requests, set by `routeFactory`
+  rateLimitStore?: RateLimitStore;
+};
+
+type Join<Prefix extends string, Path extends string> = `${Prefix}${Path}`;
+
+// Shared param schemas plus the route's own
+type ScopeParams<SP, P> = [P] extends [never] ? SP : SP & P;
+
+// The session middleware when `requireSession` is set
+type SessionMiddleware<RS, A> = RS extends true ? [A] : [];
+
+// `requireSession` can only be set when the factory was given a session middleware
+type RequireSessionOption<RS, A> = [A] extends [never] ? never : RS;
+
+export interface RouteBuilder<C, Prefix extends string, Shared extends MiddlewareList, SP, A extends Middleware = never> {
+  <
     const Path extends string,
     const Method extends HttpMethod,
+    const P extends ParamsShape<Join<Prefix, Path>> = never,
     const Q extends SchemaShape = never,
     const B extends SchemaShape = never,
-    R = unknown,
+    const BT extends BodyType = "json",
+    const S extends z.ZodTypeAny = never,
+    R extends ResponseInput<S> = ResponseInput<S>,
+    const T extends z.ZodTypeAny = never,
+    const E extends ErrorList = [],
+    const M extends MiddlewareList = [],
+    const RS extends boolean = false,
   >(
     path: Path,
     method: Method,
     config: {
+      params?: P;
       query?: Q;
       body?: B;
-      handler: (ctx: RouteContext<C, Path, SafeInfer<Q>, SafeInfer<B>>) => Promise<R> | R;
+      // Defaults to "json"; form and multipart routes also accept JSON, which ApiClient sends when no file is attached
+      bodyType?: BT;
+      response?: S;
+      // Makes this a server-sent events route: the handler yields events matching this schema
+      stream?: T;
+      // Domain errors the handler may throw, serialized with their status and typed for clients
+      errors?: E;
+      // Run before validation; the fields they return are added to the handler context
+      middleware?: M;
+      // Respond 401 without a signed-in session; the handler gets the session middleware's fields
+      requireSession?: RequireSessionOption<RS, A>;
+      // Authorization rules checked with the handler's context before it runs, e.g. roles or ownership
+      policies?: readonly Policy<
+        HandlerContext<C, Join<Prefix, Path>, Q, B, BT, InferParams<Join<Prefix, Path>, ScopeParams<SP, P>>, [...Shared, ...SessionMiddleware<RS, A>, ...M]>
+      >[];
+      // Requests per client before a 429; a list applies several, e.g. a burst and a daily limit
+      rateLimit?: RateLimit<
+        HandlerContext<C, Join<Prefix, Path>, Q, B, BT, InferParams<Join<Prefix, Path>, ScopeParams<SP, P>>, [...Shared, ...SessionMiddleware<RS, A>, ...M]>
+      > | readonly RateLimit<
+        HandlerContext<C, Join<Prefix, Path>, Q, B, BT, InferParams<Join<Prefix, Path>, ScopeParams<SP, P>>, [...Shared, ...SessionMiddleware<RS, A>, ...M]>
+      >[];
+      handler: (
+        ctx: HandlerContext<C, Join<Prefix, Path>, Q, B, BT, InferParams<Join<Prefix, Path>, ScopeParams<SP, P>>, [...Shared, ...SessionMiddleware<RS, A>, ...M]>
+      ) => [T] extends [never] ? Promise<R> | R : AsyncIterable<z.input<T>> | Iterable<z.input<T>>;
     }
-  ): RouteDef<C, Path, Method, SafeInfer<Q>, SafeInfer<B>, R> {
+  ): RouteDef<
+    C,
+    Join<Prefix, Path>,
+    Method,
+    SafeInfer<Q>,
+    RequestBody<BT, B>,
+    [T] extends [never] ? ResponseOutput<S, R> : AsyncIterable<z.output<T>>,
+    InferParams<Join<Prefix, Path>, ScopeParams<SP, P>>,
+    readonly (E[number] | MiddlewareErrors<[...Shared, ...SessionMiddleware<RS, A>, ...M]>)[],
+    MiddlewareContext<[...Shared, ...SessionMiddleware<RS, A>, ...M]>
+  >;
+
+  // Derive a route factory that prefixes paths and runs the shared middlewares and param schemas first
+  with<
+    const Sub extends string = "",
+    const M extends MiddlewareList = [],
+    const P extends ParamsShape<Join<Prefix, Sub>> = never,
+    const RS extends boolean = false,
+  >(options: {
+    prefix?: Sub;
+    middleware?: M;
+    params?: P;
+    requireSession?: RequireSessionOption<RS, A>;
+  }): RouteBuilder<C, Join<Prefix, Sub>, [...Shared, ...SessionMiddleware<RS, A>, ...M], ScopeParams<SP, P>, A>;
+
+  // Build a collection of routes under a path prefix; nest by calling `route.group` in `build`
+  group<
+    const Sub extends string,
+    const M extends MiddlewareList = [],
+    const P extends ParamsShape<Join<Prefix, Sub>> = never,
+    const RS extends boolean = false,
+    const T extends RouteEntry<C>[] = [],
+  >(
+    prefix: Sub,
+    options: {
+      middleware?: M;
+      params?: P;
+      requireSession?: RequireSessionOption<RS, A>;
+    },
+    build: (route: RouteBuilder<C, Join<Prefix, Sub>, [...Shared, ...SessionMiddleware<RS, A>, ...M], ScopeParams<SP, P>, A>) => T,
+  ): RouteCollection<C, FlattenRoutes<T>>;
+}
+
+/**
+ * Create the app's `route` builder. Given a session middleware, routes and
+ * groups accept `requireSession: true` to run it before their own middlewares;
+ * given a store, routes accept `rateLimit`:
+ *
+ *   export const route = routeFactory<AppContext, typeof requireSession>({ requireSession, rateLimitStore: memoryStore() });
+ */
+export function routeFactory<C, A extends Middleware = never>(
+  options: { requireSession?: A; rateLimitStore?: RateLimitStore } = {},
+): RouteBuilder<C, "", [], unknown, A> {
+  return createRoute<C, "", [], unknown, A>({
+    prefix: "",
+    middleware: [],
+    params: {},
+    session: options.requireSession,
+    rateLimitStore: options.rateLimitStore,
+  });
+}
+
+function createRoute<C, Prefix extends string, Shared extends MiddlewareList, SP, A extends Middleware>(
+  scope: RouteScope
+): RouteBuilder<C, Prefix, Shared, SP, A> {
+  // `requireSession: true` as a middleware, checked when routes are built rather than on the first request
+  const sessionMiddleware = (requireSession: boolean | undefined): MiddlewareList => {
+    if (!requireSession) return [];
+    if (!scope.session) throw new Error("requireSession needs a session middleware, see routeFactory");
+    return [scope.session];
+  };
+
+  function route(path: string, method: HttpMethod, config: {
+    params?: SchemaShape;
+    query?: SchemaShape;
+    body?: SchemaShape;
+    bodyType?: BodyType;
+    response?: z.ZodTypeAny;
+    stream?: z.ZodTypeAny;
+    errors?: ErrorList;
+    middleware?: MiddlewareList;
+    requireSession?: boolean;
+    policies?: readonly Policy[];
+    rateLimit?: RateLimit | readonly RateLimit[];
+    handler: RouteDef["handler"];
+  }): RouteDef {
+    const rateLimits = config.rateLimit && (Array.isArray(config.rateLimit) ? config.rateLimit as readonly RateLimit[] : [config.rateLimit as RateLimit]);
+    if (rateLimits && !scope.rateLimitStore) throw new Error(`rateLimit on ${method} ${scope.prefix + path} needs a store, see routeFactory`);
+
+    const middleware = [...scope.middleware, ...sessionMiddleware(config.requireSession), ...config.middleware ?? []];
+    const paramsSchema = { ...scope.params, ...config.params };
     return {
-      path,
+      path: scope.prefix + path,
       method,
+      // The adapter parses the handler result through `responseSchema`, so clients see the schema output
       handler: config.handler,
+      middleware,
+      paramsSchema: Object.keys(paramsSchema).length > 0 ? paramsSchema : undefined,
       querySchema: config.query,
       bodySchema: config.body,
+      bodyType: config.bodyType,
+      responseSchema: config.response,
+      streamSchema: config.stream,
+      errors: [...config.errors ?? [], ...collectMiddlewareErrors(middleware)],
+      policies: config.policies,
+      rateLimits,
+      rateLimitStore: rateLimits && scope.rateLimitStore,
     };
-  };
+  }
+
+  type ScopeOptions = { prefix?: string; middleware?: MiddlewareList; params?: SchemaShape; requireSession?: boolean };
+  const withScope = (options: ScopeOptions) =>
+    createRoute({
+      prefix: scope.prefix + (options.prefix ?? ""),
+      middleware: [...scope.middleware, ...sessionMiddleware(options.requireSession), ...options.middleware ?? []],
+      params: { ...scope.params, ...options.params },
+      session: scope.session,
+      rateLimitStore: scope.rateLimitStore,
+    });
+
+  return Object.assign(route, {
+    with: withScope,
+    group: (
+      prefix: string,
+      options: Omit<ScopeOptions, "prefix">,
+      build: (route: RouteBuilder<C, string, MiddlewareList, unknown>) => RouteEntry<C>[],
+    ) => ({ routes: flattenRoutes(build(withScope({ ...options, prefix }) as RouteBuilder<C, string, MiddlewareList, unknown>)) }),
+  }) as unknown as RouteBuilder<C, Prefix, Shared, SP, A>;
 }
 
 export type RouteCollection<C, T extends RouteDef<C>[]> = {
   routes: T;
 };
 
+// Anything `routes()` and `route.group()` accept: single routes or nested collections
+export type RouteEntry<C> = RouteDef<C> | RouteCollection<C, RouteDef<C>[]>;
+
+// [a, { routes: [b, c] }] → [a, b, c]
+export type FlattenRoutes<T> = T extends [infer Head, ...infer Tail]
+  ? Head extends RouteCollection<unknown, infer R>
+    ? [...R, ...FlattenRoutes<Tail>]
+    : [Head, ...FlattenRoutes<Tail>]
+  : [];
+
+function flattenRoutes<C>(entries: RouteEntry<C>[]): RouteDef<C>[] {
+  return entries.flatMap((entry) => ("routes" in entry ? entry.routes : [entry]));
+}
+
 export function routesFactory<C>() {
-  return function routes<const T extends RouteDef<C>[]>(
-    ...routeDefs: T
-  ): RouteCollection<C, T> {
-    return { routes: routeDefs };
+  return function routes<const T extends RouteEntry<C>[]>(
+    ...entries: T
+  ): RouteCollection<C, FlattenRoutes<T>> {
+    return { routes: flattenRoutes(entries) as FlattenRoutes<T> };
   };
 }
 
@@ -92,16 +337,18 @@ export type ExtractRoutes<T extends RouteDef[]> = {
     [Method in Extract<T[number], { path: Path }>["method"]]: Extract<
       T[number],
       { path: Path; method: Method }
-    >["handler"] extends (ctx: infer Ctx) => infer Response
-      ? Ctx extends { query: infer Query; body: infer Body }
-        ? {
-            params: ExtractPathParams<Path> extends never
-              ? never
-              : { [K in ExtractPathParams<Path>]: string };
+    > extends infer Def extends RouteDef
+      ? Def["handler"] extends (ctx: infer Ctx) => infer Response
+        ? Ctx extends { params: infer Params; query: infer Query; body: infer Body }
+          ? Simplify<{
+            params: ExtractPathParams<Path> extends never ? never : Params;
             query: Query;
             body: Body;
-            response: Awaited<Response>;
-          }
+            error: ErrorBody | ErrorBodyOf<NonNullable<Def["errors"]>[number]>;
+          } & (Awaited<Response> extends AsyncIterable<infer Event>
+            ? { response: never; event: Event }
+            : { response: Awaited<Response>; event: never })>
+          : never
         : never
       : never;
   };
@@ -0,0 +1,55 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+import type { Logger } from "./logger.js";
+
+// How long a request's queued work may run after its response by default
+export const POST_RESPONSE_BUDGET = 10_000;
+
+type Task = { promise: Promise<unknown>; log: Logger; done: boolean };
+
+export type TaskQueue = {
+  // Run the request handling in `fn`; `waitUntil` calls made meanwhile queue here
+  run<T>(fn: () => T): T;
+  // Wait for the queued tasks, at most `budgetMs`; failures and overruns are logged, never thrown
+  settle(budgetMs?: number): Promise<void>;
+};
+
+const storage = new AsyncLocalStorage<Task[]>();
+
+/**
+ * Work a request queues to finish after its response, e.g. an analytics flush.
+ * Whoever serves the request owns the queue: the Lambda handler settles it
+ * once the response stream closes, before the instance is frozen, and the dev
+ * server and `createCaller` do the same so they behave like production.
+ */
+export function createTaskQueue(): TaskQueue {
+  const tasks: Task[] = [];
+
+  return {
+    run: (fn) => storage.run(tasks, fn),
+    settle: async (budgetMs = POST_RESPONSE_BUDGET) => {
+      const pending = tasks.splice(0);
+      if (pending.length === 0) return;
+
+      let timer: NodeJS.Timeout | undefined;
+      await Promise.race([
+        Promise.all(pending.map((task) => task.promise)),
+        new Promise((resolve) => timer = setTimeout(resolve, budgetMs)),
+      ]);
+      clearTimeout(timer);
+
+      for (const task of pending.filter((t) => !t.done)) {
+        task.log.warn("Post-response task exceeded its budget", { budgetMs });
+      }
+    },
+  };
+}
+
+// Queue `promise` with the current request; outside a queue (e.g. `app.request` in tests) it just runs
+export function waitUntil(promise: Promise<unknown>, log: Logger): void {
+  const task: Task = { promise: Promise.resolve(), log, done: false };
+  task.promise = promise
+    .catch((error: unknown) => log.error("Post-response task failed", { error }))
+    .finally(() => task.done = true);
+  storage.getStore()?.push(task);
+}
@@ -0,0 +1,74 @@
+import assert from "node:assert";
+import { afterEach, describe, it, mock } from "node:test";
+
+import { Hono } from "hono";
+
+import { ParameterNotFound, SSMClient } from "@aws-sdk/client-ssm";
+
+import { handleError } from "../../lib/hono-adapter.js";
+import { type LogEntry, setLogWriter } from "../../lib/logger.js";
+import { verifyOrigin } from "../origin.js";
+
+describe("verifyOrigin", () => {
+  const app = new Hono();
+  app.onError(handleError);
+  app.use(verifyOrigin);
+  app.get("/api/health", (c) => c.json({ status: "ok" }));
+
+  const get = (headers: Record<string, string> = {}) => app.request("/api/health", { headers });
+
+  afterEach(() => {
+    delete process.env.ORIGIN_SECRET;
+    delete process.env.ORIGIN_SECRET_PARAMETER;
+    mock.restoreAll();
+  });
+
+  // Runs the test in production and collects the messages of the errors it logs
+  function captureErrors(t: { after: (fn: () => void) => void }): string[] {
+    const messages: string[] = [];
+    const writer = setLogWriter((entry: LogEntry) => {
+      if (entry.level === "error") messages.push((entry.error as { message: string }).message);
+    });
+    const nodeEnv = process.env.NODE_ENV;
+    process.env.NODE_ENV = "production";
+    t.after(() => {
+      setLogWriter(writer);
+      if (nodeEnv === undefined) delete process.env.NODE_ENV;
+      else process.env.NODE_ENV = nodeEnv;
+    });
+    return messages;
+  }
+
+  it("lets every request through when no secret is configured", async () => {
+    assert.strictEqual((await get()).status, 200);
+  });
+
+  it("rejects requests without the secret", async () => {
+    process.env.ORIGIN_SECRET = "current";
+    const res = await get();
+    assert.strictEqual(res.status, 403);
+    assert.deepStrictEqual(await res.json(), { code: "HTTP_ERROR", message: "Requests must come through the edge" });
+    assert.strictEqual((await get({ "x-origin-verify": "guess" })).status, 403);
+  });
+
+  it("accepts the current and the previous secret", async () => {
+    process.env.ORIGIN_SECRET = "current,previous";
+    assert.strictEqual((await get({ "x-origin-verify": "current" })).status, 200);
+    assert.strictEqual((await get({ "x-origin-verify": "previous" })).status, 200);
+  });
+
+  it("fails every request in production when no secret is configured", async (t) => {
+    const errors = captureErrors(t);
+    assert.strictEqual((await get()).status, 500);
+    assert.deepStrictEqual(errors, ["Neither ORIGIN_SECRET nor ORIGIN_SECRET_PARAMETER is set"]);
+  });
+
+  it("explains a missing SSM parameter", async (t) => {
+    const errors = captureErrors(t);
+    process.env.ORIGIN_SECRET_PARAMETER = "/app/origin-secret";
+    mock.method(SSMClient.prototype, "send", () => Promise.reject(new ParameterNotFound({ message: "", $metadata: {} })));
+
+    assert.strictEqual((await get({ "x-origin-verify": "current" })).status, 500);
+    assert.deepStrictEqual(errors, ["Origin secret parameter /app/origin-secret not found, deploy the edge to create it"]);
+  });
+});
@@ -0,0 +1,61 @@
+import { timingSafeEqual } from "node:crypto";
+
+import { createMiddleware } from "hono/factory";
+import { HTTPException } from "hono/http-exception";
+import { ORIGIN_SECRET_HEADER, parseOriginSecrets } from "shared/origin-secret";
+
+import { GetParameterCommand, ParameterNotFound, SSMClient } from "@aws-sdk/client-ssm";
+
+const CACHE_TTL = 5 * 60_000;
+// After a rotation the edge can send the new secret before the cache expires, so a mismatch re-reads it, this often at most
+const REFRESH_INTERVAL = 10_000;
+
+let cached: { secrets: string[]; readAt: number } | undefined;
+
+/**
+ * Rejects requests that did not come through the edge, so the Function URL
+ * cannot be called directly. Deployed, the secrets are read from the SSM
+ * parameter the edge also reads; the dev server sets ORIGIN_SECRET. With
+ * neither, as in tests, every request is let through, except in production,
+ * where a missing secret fails every request instead of opening the origin.
+ */
+export const verifyOrigin = createMiddleware(async (c, next) => {
+  const sent = c.req.header(ORIGIN_SECRET_HEADER);
+  let secrets = await originSecrets(false);
+  if (secrets && !matches(sent, secrets)) secrets = await originSecrets(true);
+  if (secrets && !matches(sent, secrets)) throw new HTTPException(403, { message: "Requests must come through the edge" });
+  await next();
+});
+
+async function originSecrets(refresh: boolean): Promise<string[] | null> {
+  if (process.env.ORIGIN_SECRET) return parseOriginSecrets(process.env.ORIGIN_SECRET);
+  const name = process.env.ORIGIN_SECRET_PARAMETER;
+  if (!name) {
+    if (process.env.NODE_ENV === "production") throw new Error("Neither ORIGIN_SECRET nor ORIGIN_SECRET_PARAMETER is set");
+    return null;
+  }
+
+  const now = Date.now();
+  if (cached && now - cached.readAt < (refresh ? REFRESH_INTERVAL : CACHE_TTL)) return cached.secrets;
+
+  const ssm = new SSMClient({ region: process.env.SSM_REGION });
+  let result;
+  try {
+    result = await ssm.send(new GetParameterCommand({ Name: name, WithDecryption: true }));
+  } catch (e) {
+    // The edge deploy creates it
+    if (e instanceof ParameterNotFound) throw new Error(`Origin secret parameter ${name} not found, deploy the edge to create it`, { cause: e });
+    throw e;
+  }
+  cached = { secrets: parseOriginSecrets(result.Parameter?.Value ?? ""), readAt: now };
+  return cached.secrets;
+}
+
+function matches(sent: string | undefined, secrets: string[]): boolean {
+  if (!sent) return false;
+  const sentBytes = Buffer.from(sent);
+  return secrets.some((secret) => {
+    const secretBytes = Buffer.from(secret);
+    return secretBytes.length === sentBytes.length && timingSafeEqual(secretBytes, sentBytes);
+  });
+}
@@ -0,0 +1,24 @@
+import { readSession } from "../auth/session.js";
+import type { AppContext } from "../lib/app-context.js";
+import { defineError } from "../lib/errors.js";
+import { middlewareFactory } from "../lib/middleware.js";
+
+// app-context.ts builds `route` with `requireSession`, so this module cannot import its `middleware`
+const middleware = middlewareFactory<AppContext>();
+
+export const Unauthorized = defineError("UNAUTHORIZED", { status: 401, message: "Sign in required" });
+
+// The signed-in session, or null; for routes that also serve signed-out users
+export const session = middleware({
+  handler: async ({ c }) => ({ session: await readSession(c) }),
+});
+
+// What `requireSession: true` runs: 401 without a session, otherwise the session and its user
+export const requireSession = middleware({
+  middleware: [session],
+  errors: [Unauthorized],
+  handler: ({ session }) => {
+    if (!session) throw new Unauthorized();
+    return { session, user: session.user };
+  },
+});
@@ -0,0 +1,131 @@
+import assert from "node:assert";
+import { before, describe, it } from "node:test";
+
+import { hasRole } from "../../auth/policies.js";
+import { route, routes } from "../../lib/app-context.js";
+import { createCaller } from "../../lib/caller.js";
+import { routes as authRoutes } from "../auth.js";
+
+process.env.AUTH_SECRET = "test-secret";
+process.env.AUTH_COOKIE_PREFIX = "test";
+process.env.AUTH_FAKE_PROVIDER = "true";
+process.env.AUTH_ADMINS = "kurt@example.com";
+
+const api = routes(
+  authRoutes,
+  route("/api/me", "GET", {
+    requireSession: true,
+    handler: ({ user, session }) => ({ email: user.email, expiresAt: session.expiresAt }),
+  }),
+  route("/api/admin", "GET", {
+    requireSession: true,
+    policies: [hasRole("admin")],
+    handler: () => ({ ok: true }),
+  }),
+);
+const { app } = createCaller(api);
+
+// name=value of each Set-Cookie, ready to send back as a Cookie header
+function cookies(res: Response): string {
+  return res.headers.getSetCookie().map((cookie) => cookie.split(";")[0]).join("; ");
+}
+
+async function signIn(loginHint: string): Promise<string> {
+  const signInRes = await app.request(`/api/auth/sign-in/fake?loginHint=${loginHint}&callbackURL=/garden`);
+  const callback = new URL(signInRes.headers.get("Location")!);
+  const callbackRes = await app.request(callback.pathname + callback.search, { headers: { Cookie: cookies(signInRes) } });
+  assert.strictEqual(callbackRes.status, 302);
+  assert.strictEqual(callbackRes.headers.get("Location"), "/garden");
+  return cookies(callbackRes);
+}
+
+describe("auth routes", () => {
+  let sessionCookie: string;
+  before(async () => {
+    sessionCookie = await signIn("kurt@example.com");
+  });
+
+  it("signs in through the provider and sets a prefixed session cookie", () => {
+    assert.match(sessionCookie, /^test\.oauth_state=; test\.session=/);
+  });
+
+  it("reads the session back", async () => {
+    const res = await app.request("/api/auth/session", { headers: { Cookie: sessionCookie } });
+    const session = await res.json() as { user: { email: string } };
+    assert.strictEqual(session.user.email, "kurt@example.com");
+  });
+
+  it("rejects a callback without the state cookie", async () => {
+    const res = await app.request("/api/auth/callback/fake?code=mallory@example.com&state=guessed");
+    assert.strictEqual(res.status, 400);
+    assert.strictEqual((await res.json() as { code: string }).code, "INVALID_OAUTH_STATE");
+  });
+
+  it("responds 404 for providers that are not enabled", async () => {
+    const res = await app.request("/api/auth/sign-in/github");
+    assert.strictEqual(res.status, 404);
+  });
+
+  it("only redirects to same-site paths after sign-in", async () => {
+    const signInRes = await app.request("/api/auth/sign-in/fake?callbackURL=//evil.example");
+    const callback = new URL(signInRes.headers.get("Location")!);
+    const res = await app.request(callback.pathname + callback.search, { headers: { Cookie: cookies(signInRes) } });
+    assert.strictEqual(res.headers.get("Location"), "/");
+  });
+});
+
+describe("requireSession", () => {
+  it("responds 401 without a session", async () => {
+    const res = await app.request("/api/me");
+    assert.strictEqual(res.status, 401);
+    assert.deepStrictEqual(await res.json(), { code: "UNAUTHORIZED", message: "Sign in required" });
+  });
+
+  it("ignores session cookies that were tampered with", async () => {
+    const sessionCookie = await signIn("kurt@example.com");
+    const forged = sessionCookie.replace("kurt%40example.com", "admin%40example.com");
+    assert.notStrictEqual(forged, sessionCookie);
+
+    const res = await app.request("/api/me", { headers: { Cookie: forged } });
+    assert.strictEqual(res.status, 401);
+  });
+
+  it("gives the handler the session and its user", async () => {
+    const res = await app.request("/api/me", { headers: { Cookie: await signIn("kurt@example.com") } });
+    assert.strictEqual(res.status, 200);
+    assert.strictEqual((await res.json() as { email: string }).email, "kurt@example.com");
+  });
+
+  it("treats everyone as signed out without AUTH_SECRET", async () => {
+    const sessionCookie = await signIn("kurt@example.com");
+    delete process.env.AUTH_SECRET;
+    try {
+      const sessionRes = await app.request("/api/auth/session", { headers: { Cookie: sessionCookie } });
+      assert.strictEqual(sessionRes.status, 200);
+      assert.strictEqual(await sessionRes.json(), null);
+
+      const res = await app.request("/api/me", { headers: { Cookie: sessionCookie } });
+      assert.strictEqual(res.status, 401);
+    } finally {
+      process.env.AUTH_SECRET = "test-secret";
+    }
+  });
+
+  it("clears the session on sign-out", async () => {
+    const res = await app.request("/api/auth/sign-out", { method: "POST", headers: { Cookie: await signIn("kurt@example.com") } });
+    assert.match(cookies(res), /^test\.session=$/);
+  });
+});
+
+describe("roles", () => {
+  it("grants AUTH_ADMINS the admin role at sign-in", async () => {
+    const res = await app.request("/api/admin", { headers: { Cookie: await signIn("Kurt@example.com") } });
+    assert.strictEqual(res.status, 200);
+  });
+
+  it("denies everyone else", async () => {
+    const res = await app.request("/api/admin", { headers: { Cookie: await signIn("guest@example.com") } });
+    assert.strictEqual(res.status, 403);
+    assert.deepStrictEqual(await res.json(), { code: "FORBIDDEN", message: "Requires role admin" });
+  });
+});
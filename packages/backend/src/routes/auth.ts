@@ -0,0 +1,81 @@
+import { z } from "zod";
+
+import { enabledProviders, UnverifiedEmail } from "../auth/providers.js";
+import { rolesFor } from "../auth/roles.js";
+import { clearSession, publicOrigin, sessionSchema, takeSignedValue, writeSession, writeSignedValue } from "../auth/session.js";
+import { route as createRoute } from "../lib/app-context.js";
+import { defineError, NotFound } from "../lib/errors.js";
+import { session } from "../middleware/session.js";
+
+const InvalidOAuthState = defineError("INVALID_OAUTH_STATE", { status: 400, message: "Sign-in expired or was started elsewhere, try again" });
+
+const OAUTH_STATE_MAX_AGE = 10 * 60;
+
+// Each sign-in costs a round trip to the provider; generous enough for a shared office IP
+const SIGN_IN_RATE_LIMIT = { limit: 30, window: 60, by: "ip" } as const;
+
+const oauthState = z.object({ state: z.string(), provider: z.string(), callbackURL: z.string() });
+
+function findProvider(id: string) {
+  const provider = enabledProviders().find((p) => p.id === id);
+  if (!provider) throw new NotFound(`No sign-in provider ${id}`);
+  return provider;
+}
+
+// Only same-site paths, so sign-in cannot be used to redirect to another site
+function safeCallbackURL(callbackURL: string | undefined): string {
+  return callbackURL?.startsWith("/") && !callbackURL.startsWith("//") ? callbackURL : "/";
+}
+
+export const routes = createRoute.group("/api/auth", {}, (route) => [
+  route("/session", "GET", {
+    middleware: [session],
+    response: sessionSchema.nullable(),
+    handler: ({ session }) => session,
+  }),
+
+  // Browser navigation, not fetch: redirects to the provider's consent screen
+  route("/sign-in/:provider", "GET", {
+    query: { callbackURL: z.string().optional(), loginHint: z.string().optional() },
+    errors: [NotFound],
+    rateLimit: SIGN_IN_RATE_LIMIT,
+    handler: async ({ c, params, query }) => {
+      const provider = findProvider(params.provider);
+      const state = crypto.randomUUID();
+      await writeSignedValue(c, "oauth_state", {
+        state,
+        provider: provider.id,
+        callbackURL: safeCallbackURL(query.callbackURL),
+      }, OAUTH_STATE_MAX_AGE);
+
+      const redirectUri = `${publicOrigin(c)}/api/auth/callback/${provider.id}`;
+      return c.redirect(provider.authorizationUrl({ state, redirectUri, loginHint: query.loginHint }));
+    },
+  }),
+
+  route("/callback/:provider", "GET", {
+    query: { code: z.string(), state: z.string() },
+    errors: [NotFound, InvalidOAuthState, UnverifiedEmail],
+    rateLimit: SIGN_IN_RATE_LIMIT,
+    handler: async ({ c, params, query }) => {
+      const provider = findProvider(params.provider);
+      const stored = oauthState.safeParse(await takeSignedValue(c, "oauth_state"));
+      if (!stored.success || stored.data.state !== query.state || stored.data.provider !== provider.id) {
+        throw new InvalidOAuthState();
+      }
+
+      const redirectUri = `${publicOrigin(c)}/api/auth/callback/${provider.id}`;
+      const profile = await provider.exchange({ code: query.code, redirectUri });
+      await writeSession(c, { ...profile, roles: rolesFor(profile.email) });
+      return c.redirect(stored.data.callbackURL);
+    },
+  }),
+
+  route("/sign-out", "POST", {
+    response: z.object({ ok: z.literal(true) }),
+    handler: ({ c }) => {
+      clearSession(c);
+      return { ok: true as const };
+    },
+  }),
+]);
@@ -1,6 +1,12 @@
+import { z } from "zod";
+
 import { route as createRoute } from "../lib/app-context.js";
 
 export const route = createRoute("/api/health", "GET", {
+  response: z.object({
+    status: z.literal("ok"),
+    timestamp: z.number(),
+  }),
   handler: () => {
     return {
       status: "ok" as const,
@@ -1,16 +1,17 @@
 #!/usr/bin/env -S node --import tsx
 import { execSync } from "node:child_process";
-import fs from "node:fs";
 import path from "node:path";
 import { createInterface } from "node:readline";
 import { parseArgs } from "node:util";
 
 import * as cdk from "aws-cdk-lib";
-import { build } from "esbuild";
-import { frontendBucketName, loadConfig, type TssConfig } from "shared/config";
+import { frontendBucketName, loadConfig } from "shared/config";
 import { validateSubdomainMap } from "shared/subdomain-validation";
 
+import { buildEdgeFunctions } from "./lib/build.js";
 import { EdgeStack } from "./lib/edge-stack.js";
+import { ensureOriginSecret } from "./lib/origin-secret.js";
+import { hashPreviewProtection, parsePreviewCredentials, PREVIEW_CREDENTIALS_VAR } from "./lib/preview-protection.js";
 
 const ROOT = path.resolve(import.meta.dirname, "..");
 const DIST = path.join(ROOT, "dist");
@@ -28,11 +29,21 @@ async function main() {
     process.exit(1);
   }
 
+  // Without logins every protected preview would be locked, so refuse to build rather than deploy that
+  const credentials = parsePreviewCredentials(process.env[PREVIEW_CREDENTIALS_VAR] ?? "");
+  if (config.previewProtection && credentials.length === 0) {
+    console.error(`Error: previewProtection is set but ${PREVIEW_CREDENTIALS_VAR} has no user:password logins`);
+    process.exit(1);
+  }
+
+  console.log("Building edge functions...");
   await buildEdgeFunctions({
     subdomainMap: config.subdomainMap,
     domain: config.domain,
     project: config.project,
     ssmRegion: config.ssm.region,
+    outdir: DIST,
+    previewProtection: config.previewProtection && hashPreviewProtection(config.previewProtection, credentials, config.project),
   });
 
   const stackId = synthesizeStack({
@@ -48,6 +59,7 @@ async function main() {
 
   switch (command) {
     case "deploy":
+      if (!dryRun) await ensureOriginSecret({ project: config.project, ssmRegion: config.ssm.region });
       deploy(stackId, dryRun);
       break;
     case "destroy":
@@ -100,48 +112,6 @@ Examples:
   process.exit(0);
 }
 
-interface BuildOptions {
-  subdomainMap: TssConfig["subdomainMap"];
-  domain: string | undefined;
-  project: string;
-  ssmRegion: string;
-}
-
-async function buildEdgeFunctions(opts: BuildOptions) {
-  console.log("Building edge functions...");
-  fs.rmSync(DIST, { recursive: true, force: true });
-  fs.mkdirSync(DIST, { recursive: true });
-
-  // Build viewer-request CloudFront Function
-  await build({
-    entryPoints: [path.join(ROOT, "src/viewer-request/index.ts")],
-    bundle: true,
-    platform: "neutral",
-    target: "es2019",
-    format: "esm",
-    treeShaking: false,
-    outfile: path.join(DIST, "viewer-request/index.js"),
-    define: {
-      SUBDOMAIN_MAP_CONFIG: JSON.stringify(opts.subdomainMap),
-      DOMAIN_CONFIG: JSON.stringify(opts.domain ?? ""),
-    },
-  });
-
-  // Build origin-request Lambda@Edge
-  await build({
-    entryPoints: [path.join(ROOT, "src/origin-request/index.ts")],
-    bundle: true,
-    platform: "node",
-    target: "node24",
-    format: "cjs",
-    outfile: path.join(DIST, "origin-request/index.js"),
-    define: {
-      "process.env.PROJECT": JSON.stringify(opts.project),
-      "process.env.SSM_REGION": JSON.stringify(opts.ssmRegion),
-    },
-  });
-}
-
 import type { EdgeStackConfig } from "./lib/edge-stack.js";
 
 function synthesizeStack(config: EdgeStackConfig): string {
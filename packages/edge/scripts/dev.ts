@@ -1,43 +1,167 @@
 #!/usr/bin/env -S node --import tsx
 process.title = "dev:edge";
 
+import { randomUUID } from "node:crypto";
 import http from "node:http";
+import path from "node:path";
 import { parseArgs } from "node:util";
 
+import type { CloudFrontHeaders, CloudFrontResultResponse } from "aws-lambda";
 import httpProxy from "http-proxy";
 import { loadConfig } from "shared/config";
+import { devOriginSecret } from "shared/origin-secret";
+import * as SSMParameters from "shared/ssm-parameters";
+
+import { buildEdgeFunctions } from "./lib/build.js";
+import {
+  isViewerResponse,
+  loadOriginRequest,
+  loadViewerRequest,
+  originRequestEvent,
+  viewerRequestEvent,
+  type ViewerResponse,
+} from "./lib/edge-runtime.js";
+import { hashPreviewProtection, parsePreviewCredentials, PREVIEW_CREDENTIALS_VAR } from "./lib/preview-protection.js";
 
 parseArgs({
   options: { env: { type: "string", short: "e" } },
   strict: false,
 });
 
+const DIST = path.resolve(import.meta.dirname, "../dist/dev");
+
+// Vite's own modules and HMR client have no deployed counterpart, so they skip the edge functions
+const VITE_INTERNAL = /^\/(@|node_modules\/)/;
+
 const config = loadConfig();
-const { edge, backend, frontend } = config;
+const { project, edge, backend, frontend } = config;
+const backendTarget = `http://localhost:${backend.devPort}`;
+const frontendTarget = `http://localhost:${frontend.devPort}`;
+// Unlike deploy, no logins just leaves previews open
+const previewCredentials = parsePreviewCredentials(process.env[PREVIEW_CREDENTIALS_VAR] ?? "");
+const previewProtection = config.previewProtection && previewCredentials.length > 0
+  ? hashPreviewProtection(config.previewProtection, previewCredentials, project)
+  : undefined;
+
+// The functions as deployed, except that with a custom domain subdomains are
+// *.localhost, and origin-request finds the dev backend and secret without SSM
+await buildEdgeFunctions({
+  subdomainMap: config.subdomainMap,
+  domain: config.domain ? "localhost" : undefined,
+  project,
+  ssmRegion: config.ssm.region,
+  outdir: DIST,
+  ssmParameters: {
+    [SSMParameters.backendUrlName({ project, sanitizedBranchName: "*" })]: backendTarget,
+    [SSMParameters.originSecretName({ project })]: devOriginSecret(config),
+  },
+  previewProtection,
+});
+const viewerRequest = loadViewerRequest(path.join(DIST, "viewer-request/index.js"));
+const originRequest = loadOriginRequest(path.join(DIST, "origin-request/index.js"));
 
-const proxy = httpProxy.createProxyServer({ xfwd: true });
+const proxy = httpProxy.createProxyServer({});
 proxy.on("error", () => {});
 
-const server = http.createServer((req, res) => {
-  const target = req.url?.startsWith("/api")
-    ? `http://localhost:${backend.devPort}`
-    : `http://localhost:${frontend.devPort}`;
+async function handle(req: http.IncomingMessage, res: http.ServerResponse) {
+  const url = req.url ?? "/";
+  if (VITE_INTERNAL.test(url)) {
+    forward(req, res, frontendTarget);
+    return;
+  }
 
+  const requestId = randomUUID();
+  const clientIp = req.socket.remoteAddress ?? "";
+  // The viewer-request function sets X-Forwarded-Host; the backend assumes https without this
   req.headers["x-forwarded-proto"] = "http";
-  req.headers["x-forwarded-host"] = `localhost:${edge.devPort}`;
 
+  const viewerResult = await viewerRequest(viewerRequestEvent({ method: req.method ?? "GET", url, headers: req.headers, clientIp, requestId }));
+  if (isViewerResponse(viewerResult)) {
+    sendViewerResponse(res, viewerResult);
+    return;
+  }
+
+  const result = await originRequest(originRequestEvent(viewerResult, { clientIp, requestId }));
+  if (!result) throw new Error("origin-request returned nothing");
+  if ("status" in result) {
+    sendOriginResponse(res, result);
+    return;
+  }
+
+  // API requests go to the custom origin origin-request picked, everything
+  // else to S3 under /{branch}/, which the one Vite server stands in for
+  const custom = result.origin?.custom;
+  const branch = result.headers["x-branch"]?.[0]?.value ?? "";
+  const uri = custom ? `${custom.path}${result.uri}` : result.uri.replace(`/${branch}/`, "/");
+  req.url = result.querystring ? `${uri}?${result.querystring}` : uri;
+  req.headers = { ...flattenHeaders(result.headers), ...(custom && flattenHeaders(custom.customHeaders)) };
+
+  forward(req, res, custom ? backendTarget : frontendTarget);
+}
+
+function forward(req: http.IncomingMessage, res: http.ServerResponse, target: string) {
   proxy.web(req, res, { target }, (err) => {
     res.writeHead(502);
     res.end(`Proxy error: ${err.message}`);
   });
+}
+
+function flattenHeaders(headers: CloudFrontHeaders): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers).map(([name, values]) => [
+    name,
+    values.map((entry) => entry.value).join(name === "cookie" ? "; " : ", "),
+  ]));
+}
+
+function sendViewerResponse(res: http.ServerResponse, response: ViewerResponse) {
+  for (const [name, { value, multiValue }] of Object.entries(response.headers)) {
+    const values = (multiValue ?? [{ value }]).map((entry) => name === "location" ? toDevUrl(entry.value) : entry.value);
+    res.setHeader(name, values);
+  }
+  for (const [name, cookie] of Object.entries(response.cookies ?? {})) {
+    res.appendHeader("set-cookie", `${name}=${cookie.value}${cookie.attributes ? `; ${cookie.attributes}` : ""}`);
+  }
+  res.writeHead(response.statusCode, response.statusDescription);
+
+  const body = response.body;
+  if (typeof body === "object") res.end(Buffer.from(body.data, body.encoding === "base64" ? "base64" : "utf8"));
+  else res.end(body);
+}
+
+function sendOriginResponse(res: http.ServerResponse, response: CloudFrontResultResponse) {
+  for (const [name, values] of Object.entries(response.headers ?? {})) {
+    res.setHeader(name, values.map((entry) => entry.value));
+  }
+  res.writeHead(Number(response.status), response.statusDescription);
+  res.end(response.body === undefined ? undefined : Buffer.from(response.body, response.bodyEncoding === "base64" ? "base64" : "utf8"));
+}
+
+// Redirects name https://{subdomain}.localhost, served here over http on the dev port
+function toDevUrl(location: string): string {
+  if (!URL.canParse(location)) return location;
+  const url = new URL(location);
+  if (url.hostname !== "localhost" && !url.hostname.endsWith(".localhost")) return location;
+  url.protocol = "http:";
+  url.port = String(edge.devPort);
+  return url.toString();
+}
+
+const server = http.createServer((req, res) => {
+  handle(req, res).catch((err: unknown) => {
+    // CloudFront answers a failing function with a 5xx too
+    console.error(err);
+    if (!res.headersSent) res.writeHead(502);
+    res.end(`Edge function error: ${err instanceof Error ? err.message : String(err)}`);
+  });
 });
 
 server.on("upgrade", (req, socket, head) => {
-  proxy.ws(req, socket, head, { target: `http://localhost:${frontend.devPort}` });
+  proxy.ws(req, socket, head, { target: frontendTarget });
 });
 
 server.listen(edge.devPort, () => {
   console.log(`Edge proxy running on http://localhost:${edge.devPort}`);
-  console.log(`  /api/* → http://localhost:${backend.devPort}`);
-  console.log(`  /*     → http://localhost:${frontend.devPort}`);
+  if (config.domain) console.log(`  Subdomains: http://{subdomain}.localhost:${edge.devPort}`);
+  if (config.previewProtection && !previewProtection) console.log(`  Preview protection off: ${PREVIEW_CREDENTIALS_VAR} is not set`);
+  console.log(`  viewer-request → origin-request → ${backendTarget} (/api/*) or ${frontendTarget}`);
 });
@@ -0,0 +1,84 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import { build } from "esbuild";
+import type { TssConfig } from "shared/config";
+import type { PreviewProtection } from "shared/preview-protection";
+import { compileSubdomainMap } from "shared/subdomain-map";
+
+const ROOT = path.resolve(import.meta.dirname, "../..");
+
+export interface BuildOptions {
+  subdomainMap: TssConfig["subdomainMap"];
+  domain: string | undefined;
+  project: string;
+  ssmRegion: string;
+  outdir: string;
+  // config.previewProtection with its credentials hashed, see preview-protection.ts
+  previewProtection?: PreviewProtection;
+  // Dev only: parameters origin-request reads instead of calling SSM, see dev-ssm.ts
+  ssmParameters?: Record<string, string>;
+}
+
+// CloudFront Functions reject code larger than this
+const VIEWER_REQUEST_MAX_BYTES = 10 * 1024;
+
+/**
+ * The viewer-request CloudFront Function for a config, as code. The runtime
+ * has no classes or generators, which esbuild cannot lower, so using them
+ * fails the build instead of the deploy.
+ */
+export async function buildViewerRequest(opts: Pick<BuildOptions, "subdomainMap" | "domain" | "previewProtection">): Promise<string> {
+  const subdomainMap = compileSubdomainMap(opts.subdomainMap);
+  const result = await build({
+    entryPoints: [path.join(ROOT, "src/viewer-request/index.ts")],
+    bundle: true,
+    platform: "neutral",
+    target: "es2019",
+    supported: { "class": false, "generator": false, "async-generator": false },
+    format: "esm",
+    treeShaking: false,
+    // Modules of the CloudFront Functions runtime
+    external: ["buffer", "crypto"],
+    write: false,
+    define: {
+      SUBDOMAIN_MAP_CONFIG: JSON.stringify(subdomainMap.exact),
+      SUBDOMAIN_PATTERNS_CONFIG: JSON.stringify(subdomainMap.patterns),
+      DOMAIN_CONFIG: JSON.stringify(opts.domain ?? ""),
+      PREVIEW_PROTECTION_CONFIG: JSON.stringify(opts.previewProtection ?? null),
+    },
+  });
+
+  const code = result.outputFiles[0].text;
+  const bytes = Buffer.byteLength(code);
+  if (bytes > VIEWER_REQUEST_MAX_BYTES) {
+    throw new Error(`viewer-request is ${bytes} bytes, CloudFront Functions allow ${VIEWER_REQUEST_MAX_BYTES}`);
+  }
+  return code;
+}
+
+// viewer-request/index.js for the CloudFront Function, origin-request/index.js for Lambda@Edge
+export async function buildEdgeFunctions(opts: BuildOptions) {
+  fs.rmSync(opts.outdir, { recursive: true, force: true });
+  fs.mkdirSync(opts.outdir, { recursive: true });
+
+  const viewerRequest = path.join(opts.outdir, "viewer-request/index.js");
+  fs.mkdirSync(path.dirname(viewerRequest));
+  fs.writeFileSync(viewerRequest, await buildViewerRequest(opts));
+
+  // Build origin-request Lambda@Edge
+  await build({
+    entryPoints: [path.join(ROOT, "src/origin-request/index.ts")],
+    bundle: true,
+    platform: "node",
+    target: "node24",
+    format: "cjs",
+    outfile: path.join(opts.outdir, "origin-request/index.js"),
+    define: {
+      "process.env.PROJECT": JSON.stringify(opts.project),
+      "process.env.SSM_REGION": JSON.stringify(opts.ssmRegion),
+      ...(opts.ssmParameters && { DEV_SSM_PARAMETERS: JSON.stringify(opts.ssmParameters) }),
+    },
+    alias: opts.ssmParameters ? { "@aws-sdk/client-ssm": path.join(import.meta.dirname, "dev-ssm.ts") } : {},
+  });
+}
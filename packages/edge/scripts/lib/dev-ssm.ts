@@ -0,0 +1,20 @@
+// Stands in for @aws-sdk/client-ssm in the dev build of origin-request, so the
+// dev proxy runs the handler as deployed but answers its lookups locally.
+
+// Injected at build time by buildEdgeFunctions. A name ending in "*" matches any name with that prefix.
+declare const DEV_SSM_PARAMETERS: Record<string, string>;
+
+export class GetParameterCommand {
+  constructor(readonly input: { Name: string; WithDecryption?: boolean }) {}
+}
+
+export class SSMClient {
+  constructor(readonly config: { region: string }) {}
+
+  send(command: GetParameterCommand): Promise<{ Parameter?: { Value: string } }> {
+    const name = command.input.Name;
+    const key = Object.keys(DEV_SSM_PARAMETERS).find((k) => k.endsWith("*") ? name.startsWith(k.slice(0, -1)) : k === name);
+    if (key === undefined) return Promise.reject(new Error(`ParameterNotFound: ${name}`));
+    return Promise.resolve({ Parameter: { Value: DEV_SSM_PARAMETERS[key] } });
+  }
+}
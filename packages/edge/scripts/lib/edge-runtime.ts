@@ -0,0 +1,159 @@
+import fs from "node:fs";
+import type { IncomingHttpHeaders } from "node:http";
+import { createRequire } from "node:module";
+import vm from "node:vm";
+
+import type {
+  CloudFrontFunctionsEvent,
+  CloudFrontHeaders,
+  CloudFrontRequestEvent,
+  CloudFrontRequestResult,
+} from "aws-lambda";
+
+// Runs the built edge functions outside CloudFront, for the dev proxy and the
+// viewer-request tests: loads them and builds CloudFront's event shapes.
+
+export type ViewerRequestEvent = Omit<CloudFrontFunctionsEvent, "response">;
+export type ViewerRequest = CloudFrontFunctionsEvent["request"];
+// What a viewer-request function returns to answer the viewer itself, e.g. a redirect
+export type ViewerResponse = Omit<CloudFrontFunctionsEvent["response"], "cookies"> & {
+  cookies?: CloudFrontFunctionsEvent["response"]["cookies"];
+  body?: string | { data: string; encoding: "text" | "base64" };
+};
+
+export type ViewerRequestHandler = (event: ViewerRequestEvent) => Promise<ViewerRequest | ViewerResponse>;
+export type OriginRequestHandler = (event: CloudFrontRequestEvent) => Promise<CloudFrontRequestResult>;
+
+type Pairs = Record<string, { value: string; multiValue?: { value: string }[] }>;
+
+// What the CloudFront Functions runtime lets `require` load; "cloudfront" (KeyValueStore) has no local counterpart
+const CLOUDFRONT_MODULES = ["buffer", "crypto", "querystring"];
+
+/**
+ * Run viewer-request code like the CloudFront Functions JavaScript 2.0
+ * runtime: a plain script defining `handler`, in a context of its own with
+ * only the language builtins, `console` and CloudFront's modules. Timers,
+ * `process` and `fetch` are undefined there, and `eval` and `new Function` throw.
+ * Results are copied out of the context so they compare like local objects.
+ */
+export function viewerRequestHandler(code: string, filename = "viewer-request.js"): ViewerRequestHandler {
+  const nodeRequire = createRequire(import.meta.url);
+  const require = (name: string): unknown => {
+    if (!CLOUDFRONT_MODULES.includes(name)) throw new Error(`Cannot find module '${name}'`);
+    return nodeRequire(`node:${name}`);
+  };
+  const context = vm.createContext({ console, require }, { codeGeneration: { strings: false, wasm: false } });
+
+  const handler: unknown = new vm.Script(`${code}\nhandler;`, { filename }).runInContext(context);
+  if (typeof handler !== "function") throw new Error(`${filename} does not define a handler function`);
+  return async (event) => structuredClone(await (handler as ViewerRequestHandler)(event));
+}
+
+export function loadViewerRequest(file: string): ViewerRequestHandler {
+  return viewerRequestHandler(fs.readFileSync(file, "utf8"), file);
+}
+
+export function loadOriginRequest(file: string): OriginRequestHandler {
+  return (createRequire(import.meta.url)(file) as { handler: OriginRequestHandler }).handler;
+}
+
+export function isViewerResponse(result: ViewerRequest | ViewerResponse): result is ViewerResponse {
+  return "statusCode" in result;
+}
+
+/**
+ * The event CloudFront passes the viewer-request function. As in CloudFront,
+ * cookies are taken out of the headers, and both they and the query string
+ * are parsed; query string names and values are also decoded.
+ */
+export function viewerRequestEvent(viewer: {
+  method: string;
+  url: string;
+  headers: IncomingHttpHeaders;
+  clientIp: string;
+  requestId: string;
+}): ViewerRequestEvent {
+  const queryStart = viewer.url.indexOf("?");
+  const headers: CloudFrontFunctionsEvent["request"]["headers"] = {};
+  for (const [name, value] of Object.entries(viewer.headers)) {
+    if (value === undefined || name === "cookie") continue;
+    headers[name] = { value: Array.isArray(value) ? value.join(", ") : value };
+  }
+
+  return {
+    version: "1.0",
+    context: { distributionDomainName: "localhost", distributionId: "DEV", eventType: "viewer-request", requestId: viewer.requestId },
+    viewer: { ip: viewer.clientIp },
+    request: {
+      method: viewer.method,
+      uri: queryStart === -1 ? viewer.url : viewer.url.slice(0, queryStart),
+      querystring: parsePairs(queryStart === -1 ? "" : viewer.url.slice(queryStart + 1), "&", decodeQueryComponent),
+      headers,
+      cookies: parsePairs(viewer.headers.cookie ?? "", ";"),
+    },
+  };
+}
+
+// The event Lambda@Edge receives for a request the viewer-request function passed on, headed for the S3 origin
+export function originRequestEvent(request: ViewerRequest, viewer: { clientIp: string; requestId: string }): CloudFrontRequestEvent {
+  const headers: CloudFrontHeaders = {};
+  for (const [name, { value, multiValue }] of Object.entries(request.headers)) {
+    headers[name] = (multiValue ?? [{ value }]).map((entry) => ({ key: name, value: entry.value }));
+  }
+  const cookie = serializePairs(request.cookies, "; ");
+  if (cookie) headers.cookie = [{ key: "Cookie", value: cookie }];
+
+  return {
+    Records: [{
+      cf: {
+        config: { distributionDomainName: "localhost", distributionId: "DEV", eventType: "origin-request", requestId: viewer.requestId },
+        request: {
+          clientIp: viewer.clientIp,
+          method: request.method,
+          uri: request.uri,
+          querystring: serializePairs(request.querystring, "&", encodeURIComponent),
+          headers,
+          origin: {
+            s3: { authMethod: "origin-access-identity", customHeaders: {}, domainName: "frontend.s3.localhost", path: "", region: "" },
+          },
+        },
+      },
+    }],
+  };
+}
+
+// a=1&a=2&b=3 → { a: { value: "1", multiValue: [{ value: "1" }, { value: "2" }] }, b: { value: "3" } }
+function parsePairs(text: string, separator: string, decode = (text: string) => text): Pairs {
+  const pairs: Pairs = {};
+  for (const part of text.split(separator)) {
+    const pair = part.trim();
+    if (!pair) continue;
+    const equals = pair.indexOf("=");
+    const name = decode(equals === -1 ? pair : pair.slice(0, equals));
+    const value = decode(equals === -1 ? "" : pair.slice(equals + 1));
+
+    const existing = pairs[name];
+    if (!existing) {
+      pairs[name] = { value };
+    } else {
+      existing.multiValue ??= [{ value: existing.value }];
+      existing.multiValue.push({ value });
+    }
+  }
+  return pairs;
+}
+
+function serializePairs(pairs: Pairs, separator: string, encode = (text: string) => text): string {
+  return Object.entries(pairs)
+    .flatMap(([name, pair]) => (pair.multiValue ?? [pair]).map((entry) => `${encode(name)}=${encode(entry.value)}`))
+    .join(separator);
+}
+
+// Malformed escapes are left as they are rather than failing the request
+function decodeQueryComponent(text: string): string {
+  try {
+    return decodeURIComponent(text.replaceAll("+", " "));
+  } catch {
+    return text;
+  }
+}
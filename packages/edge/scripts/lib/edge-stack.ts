@@ -10,6 +10,7 @@ import * as route53 from "aws-cdk-lib/aws-route53";
 import * as route53Targets from "aws-cdk-lib/aws-route53-targets";
 import * as s3 from "aws-cdk-lib/aws-s3";
 import { Construct } from "constructs";
+import * as SSMParameters from "shared/ssm-parameters";
 
 import { GitHubActionsIam } from "./github-actions-iam.js";
 
@@ -98,6 +99,7 @@ export class EdgeStack extends cdk.Stack {
         actions: ["ssm:GetParameter"],
         resources: [
           `arn:aws:ssm:${config.ssmRegion}:${this.account}:parameter/${config.project}/backend/*`,
+          `arn:aws:ssm:${config.ssmRegion}:${this.account}:parameter${SSMParameters.originSecretName({ project: config.project })}`,
         ],
       })
     );
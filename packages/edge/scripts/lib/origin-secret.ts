@@ -0,0 +1,55 @@
+import { randomBytes } from "node:crypto";
+
+import { parseOriginSecrets } from "shared/origin-secret";
+import * as SSMParameters from "shared/ssm-parameters";
+
+import { GetParameterCommand, ParameterNotFound, PutParameterCommand, SSMClient } from "@aws-sdk/client-ssm";
+
+interface OriginSecretOptions {
+  project: string;
+  ssmRegion: string;
+}
+
+function newSecret(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+async function readSecrets(ssm: SSMClient, name: string): Promise<string[]> {
+  try {
+    const result = await ssm.send(new GetParameterCommand({ Name: name, WithDecryption: true }));
+    return parseOriginSecrets(result.Parameter?.Value ?? "");
+  } catch (e) {
+    if (e instanceof ParameterNotFound) return [];
+    throw e;
+  }
+}
+
+async function writeSecrets(ssm: SSMClient, name: string, secrets: string[]): Promise<void> {
+  await ssm.send(new PutParameterCommand({ Name: name, Value: secrets.join(","), Type: "SecureString", Overwrite: true }));
+}
+
+/**
+ * Create the secret the origin-request function sends to backends, unless it exists.
+ * Backends read the same parameter, so it has to exist before the first backend deploy.
+ */
+export async function ensureOriginSecret({ project, ssmRegion }: OriginSecretOptions): Promise<void> {
+  const ssm = new SSMClient({ region: ssmRegion });
+  const name = SSMParameters.originSecretName({ project });
+  if ((await readSecrets(ssm, name)).length > 0) return;
+
+  console.log(`Creating origin secret: ${name}`);
+  await writeSecrets(ssm, name, [newSecret()]);
+}
+
+/**
+ * Replace the current secret and keep it as the previous one, which backends
+ * accept until the next rotation, so requests in flight keep working.
+ */
+export async function rotateOriginSecret({ project, ssmRegion }: OriginSecretOptions): Promise<void> {
+  const ssm = new SSMClient({ region: ssmRegion });
+  const name = SSMParameters.originSecretName({ project });
+  const [current] = await readSecrets(ssm, name);
+
+  console.log(`Rotating origin secret: ${name}`);
+  await writeSecrets(ssm, name, current ? [newSecret(), current] : [newSecret()]);
+}
@@ -0,0 +1,42 @@
+import { createHash, randomBytes } from "node:crypto";
+
+import type { TssConfig } from "shared/config";
+import type { PreviewProtection } from "shared/preview-protection";
+import { compileSubdomainMap } from "shared/subdomain-map";
+
+// Where deploy and dev read the logins from, so they stay out of tss.json
+export const PREVIEW_CREDENTIALS_VAR = "PREVIEW_CREDENTIALS";
+
+function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+// "alice:one,bob:two" → [["alice", "one"], ["bob", "two"]]; passwords may contain colons but not commas
+export function parsePreviewCredentials(value: string): [user: string, password: string][] {
+  return value.split(",").flatMap((entry) => {
+    const colon = entry.indexOf(":");
+    if (colon <= 0 || colon === entry.length - 1) return [];
+    return [[entry.slice(0, colon).trim(), entry.slice(colon + 1)]];
+  });
+}
+
+/**
+ * What the viewer-request function needs to enforce config.previewProtection.
+ * Passwords are salted and hashed here, so the function never contains them.
+ */
+export function hashPreviewProtection(
+  config: NonNullable<TssConfig["previewProtection"]>,
+  credentials: [user: string, password: string][],
+  project: string,
+): PreviewProtection {
+  const salt = randomBytes(16).toString("hex");
+  const logins = credentials.map(([user, password]) => `${user}:${password}`);
+  return {
+    subdomains: compileSubdomainMap(config.subdomains),
+    salt,
+    credentials: logins.map((login) => sha256(`${salt}:${login}`)),
+    cookieName: `${project}-preview`,
+    cookieKey: sha256(`${project}:preview-cookie:${[...logins].sort().join("\n")}`),
+    maxAge: config.maxAge,
+  };
+}
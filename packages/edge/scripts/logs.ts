@@ -3,6 +3,7 @@ import { parseArgs } from "node:util";
 
 import { askConfirmation, parseDuration, sleep } from "shared/cli-utils";
 import { loadConfig } from "shared/config";
+import { formatLogEntry, isLogLevel, type LogFilter, logFilterPattern, type LogLevel, parseLogEntry } from "shared/logs";
 
 import { CloudWatchLogsClient, FilterLogEventsCommand, ResourceNotFoundException } from "@aws-sdk/client-cloudwatch-logs";
 
@@ -18,6 +19,7 @@ interface CliArgs {
   startTime: number;
   tail: boolean;
   region: string;
+  filter: LogFilter;
 }
 
 async function main() {
@@ -27,7 +29,7 @@ async function main() {
   const { logGroupName, region } = getLogConfig(args.function, config.project, args.region);
 
   console.log(`${args.tail ? "Tailing" : "Fetching"} logs from ${logGroupName}...\n`);
-  await fetchLogs(logGroupName, region, args.startTime, args.tail);
+  await fetchLogs(logGroupName, region, args.startTime, args.tail, args.filter);
 }
 
 function getLogConfig(fn: FunctionType, project: string, argRegion: string): { logGroupName: string; region: string } {
@@ -50,6 +52,9 @@ function parseCliArgs(): CliArgs {
       startTime: { type: "string", short: "s" },
       tail: { type: "boolean", short: "t" },
       region: { type: "string", short: "r" },
+      "request-id": { type: "string", short: "i" },
+      level: { type: "string", short: "l" },
+      route: { type: "string" },
       help: { type: "boolean", short: "h" },
     },
     strict: true,
@@ -69,6 +74,9 @@ Options:
                           Format: <number><unit> where unit is s/m/h/d
                           Examples: 30s, 5m, 1h, 7d
   -t, --tail              Keep tailing logs (default: fetch once and exit)
+  -i, --request-id <id>   Only entries of one request (its X-Request-Id, CloudFront's x-amz-cf-id)
+  -l, --level <level>     Only entries at this level or above: debug | info | warn | error
+      --route <pattern>   Only entries for matching request paths, e.g. "/api/gardens/*"
   -h, --help              Show this help message
 
 Examples:
@@ -76,6 +84,7 @@ Examples:
   ./packages/edge/scripts/logs.ts -f origin-request -r us-west-2 -s 30m -t
   ./packages/edge/scripts/logs.ts -f viewer-request                       # always us-east-1
   ./packages/edge/scripts/logs.ts -f viewer-request -s 10m -t
+  ./packages/edge/scripts/logs.ts -f origin-request -r us-east-1 -s 1h -i <id>
 `);
     process.exit(0);
   }
@@ -90,6 +99,11 @@ Examples:
     process.exit(1);
   }
 
+  if (values.level && !isLogLevel(values.level)) {
+    console.error("Error: --level must be debug, info, warn or error");
+    process.exit(1);
+  }
+
   if (values.function === "origin-request" && !values.region) {
     console.error("Error: --region is required for origin-request (Lambda@Edge logs are regional)");
     process.exit(1);
@@ -100,19 +114,21 @@ Examples:
     startTime: parseDuration(values.startTime ?? "1m"),
     tail: values.tail ?? false,
     region: values.region ?? "us-east-1",
+    filter: { requestId: values["request-id"], level: values.level as LogLevel | undefined, path: values.route },
   };
 }
 
-async function fetchLogs(logGroupName: string, region: string, startTime: number, tail: boolean): Promise<void> {
+async function fetchLogs(logGroupName: string, region: string, startTime: number, tail: boolean, filter: LogFilter): Promise<void> {
   const logs = new CloudWatchLogsClient({ region });
   let totalEvents = 0;
   let askedConfirmation = false;
   let nextToken: string | undefined;
+  const filterPattern = logFilterPattern(filter);
 
   while (true) {
     try {
       const response = await logs.send(
-        new FilterLogEventsCommand({ logGroupName, startTime, nextToken, limit: FETCH_LIMIT })
+        new FilterLogEventsCommand({ logGroupName, startTime, nextToken, limit: FETCH_LIMIT, filterPattern })
       );
 
       const events = response.events ?? [];
@@ -120,7 +136,8 @@ async function fetchLogs(logGroupName: string, region: string, startTime: number
       for (const event of events) {
         const ts = new Date(event.timestamp!).toISOString();
         const msg = event.message?.trimEnd() ?? "";
-        console.log(`${ts}  ${msg}`);
+        const entry = parseLogEntry(msg);
+        console.log(`${ts}  ${entry ? formatLogEntry(entry) : msg}`);
         startTime = event.timestamp! + 1;
       }
 
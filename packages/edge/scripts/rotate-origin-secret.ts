@@ -0,0 +1,30 @@
+#!/usr/bin/env -S node --import tsx
+import { parseArgs } from "node:util";
+
+import { loadConfig } from "shared/config";
+
+import { rotateOriginSecret } from "./lib/origin-secret.js";
+
+async function main() {
+  const { values } = parseArgs({
+    options: { help: { type: "boolean", short: "h" } },
+    strict: true,
+  });
+
+  if (values.help) {
+    console.log(`
+Usage: ./packages/edge/scripts/rotate-origin-secret.ts
+
+Replace the secret CloudFront sends to backend Function URLs.
+The previous secret stays valid until the next rotation. The edge picks up
+the new one within a minute, backends as soon as they see it.
+`);
+    process.exit(0);
+  }
+
+  const config = loadConfig();
+  await rotateOriginSecret({ project: config.project, ssmRegion: config.ssm.region });
+  console.log("\n✅ Rotated origin secret");
+}
+
+main();
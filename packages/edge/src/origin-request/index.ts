@@ -4,6 +4,8 @@ import type {
   CloudFrontRequestResult,
 } from "aws-lambda";
 import { sanitizeBranchName } from "shared/branch";
+import type { LogEntry } from "shared/logs";
+import { ORIGIN_SECRET_HEADER, parseOriginSecrets } from "shared/origin-secret";
 import * as SSMParameters from "shared/ssm-parameters";
 
 import { GetParameterCommand, SSMClient } from "@aws-sdk/client-ssm";
@@ -14,6 +16,16 @@ const SSM_REGION = process.env.SSM_REGION!;
 
 const ssm = new SSMClient({ region: SSM_REGION });
 
+type Log = (level: LogEntry["level"], message: string, fields?: Record<string, unknown>) => void;
+
+// One JSON line per entry on stdout, the format the logs scripts filter and pretty-print
+function createLog(fields: Record<string, unknown>): Log {
+  return (level, message, extra = {}) => {
+    const entry: LogEntry = { level, message, ...fields, ...extra };
+    process.stdout.write(`${JSON.stringify(entry)}\n`);
+  };
+}
+
 async function cachedFetch<V>(
   cache: Map<string, { value: V; expires: number }>,
   key: string,
@@ -34,7 +46,7 @@ const backendUrlCache = new Map<string, { value: string | null; expires: number
 /**
  * Get backend URL from SSM (with caching)
  */
-async function getBackendUrl(branch: string): Promise<string | null> {
+async function getBackendUrl(branch: string, log: Log): Promise<string | null> {
   const sanitizedBranchName = sanitizeBranchName(branch);
   return cachedFetch(backendUrlCache, sanitizedBranchName, 60 * 1000, async (key) => {
     try {
@@ -43,7 +55,26 @@ async function getBackendUrl(branch: string): Promise<string | null> {
       );
       return result.Parameter?.Value ?? null;
     } catch (e) {
-      console.error(`SSM lookup failed for ${key}:`, e);
+      log("error", "SSM lookup failed", { parameter: key, error: String(e) });
+      return null;
+    }
+  });
+}
+
+const originSecretCache = new Map<string, { value: string | null; expires: number }>();
+
+/**
+ * Get the secret the backend expects in ORIGIN_SECRET_HEADER from SSM (with caching).
+ * The parameter lists the current secret first, see scripts/rotate-origin-secret.ts
+ */
+async function getOriginSecret(log: Log): Promise<string | null> {
+  const name = SSMParameters.originSecretName({ project: PROJECT });
+  return cachedFetch(originSecretCache, name, 60 * 1000, async (key) => {
+    try {
+      const result = await ssm.send(new GetParameterCommand({ Name: key, WithDecryption: true }));
+      return parseOriginSecrets(result.Parameter?.Value ?? "")[0] ?? null;
+    } catch (e) {
+      log("error", "SSM lookup failed", { parameter: key, error: String(e) });
       return null;
     }
   });
@@ -83,9 +114,13 @@ export const handler = async (
 
   // API requests: route to backend Lambda
   if (uri.startsWith("/api/") || uri === "/api") {
-    const backendUrl = await getBackendUrl(branch);
+    // Set by the viewer-request function, so these entries match the backend's
+    const requestId = request.headers["x-request-id"]?.[0]?.value ?? event.Records[0].cf.config.requestId;
+    const log = createLog({ requestId, method: request.method, path: uri, branch });
+    const backendUrl = await getBackendUrl(branch, log);
 
     if (!backendUrl) {
+      log("warn", "No backend for branch");
       return {
         status: "404",
         statusDescription: "Not Found",
@@ -93,7 +128,8 @@ export const handler = async (
       };
     }
 
-    return rewriteToBackend(request, backendUrl);
+    log("info", "Routed to backend");
+    return rewriteToBackend(request, backendUrl, await getOriginSecret(log));
   }
 
   // Frontend requests: prepend branch to S3 path
@@ -120,7 +156,8 @@ export const handler = async (
 
 function rewriteToBackend(
   request: CloudFrontRequest,
-  backendUrl: string
+  backendUrl: string,
+  originSecret: string | null
 ): CloudFrontRequest {
   const url = new URL(backendUrl);
 
@@ -133,11 +170,16 @@ function rewriteToBackend(
       sslProtocols: ["TLSv1.2"],
       readTimeout: 30,
       keepaliveTimeout: 5,
-      customHeaders: {},
+      // Proves to the backend that the request came through CloudFront; without it the backend responds 403
+      customHeaders: originSecret ? { [ORIGIN_SECRET_HEADER]: [{ key: ORIGIN_SECRET_HEADER, value: originSecret }] } : {},
     },
   };
 
   request.headers.host = [{ key: "Host", value: url.hostname }];
+  // The viewer's address for rate limiting; replaces any X-Client-IP the viewer sent
+  request.headers["x-client-ip"] = [{ key: "X-Client-IP", value: request.clientIp }];
+  // A viewer cannot supply the secret itself
+  delete request.headers[ORIGIN_SECRET_HEADER];
 
   return request;
 }
@@ -0,0 +1,369 @@
+import assert from "node:assert";
+import { createHmac } from "node:crypto";
+import { describe, it } from "node:test";
+
+import type { TssConfig } from "shared/config";
+import type { PreviewProtection } from "shared/preview-protection";
+
+import { buildViewerRequest } from "../../../scripts/lib/build.js";
+import {
+  isViewerResponse,
+  type ViewerRequest,
+  viewerRequestEvent,
+  viewerRequestHandler,
+  type ViewerResponse,
+} from "../../../scripts/lib/edge-runtime.js";
+import { hashPreviewProtection } from "../../../scripts/lib/preview-protection.js";
+
+const SUBDOMAIN_MAP: TssConfig["subdomainMap"] = {
+  "": { redirect: "www" },
+  "www": "main",
+  "main": null,
+  "old": { redirect: "new" },
+  "new": "feature--new",
+};
+
+// The function as built for `config`, run in the CloudFront Functions sandbox
+async function viewerRequest(config: { subdomainMap: TssConfig["subdomainMap"]; domain?: string; previewProtection?: PreviewProtection }) {
+  const handler = viewerRequestHandler(await buildViewerRequest({
+    subdomainMap: config.subdomainMap,
+    domain: config.domain,
+    previewProtection: config.previewProtection,
+  }));
+  return (url: string, headers: Record<string, string> = {}) => {
+    const { host, pathname, search } = new URL(url);
+    return handler(viewerRequestEvent({
+      method: "GET",
+      url: `${pathname}${search}`,
+      headers: { host, ...headers },
+      clientIp: "203.0.113.7",
+      requestId: "cf-request-1",
+    }));
+  };
+}
+
+function forwarded(result: ViewerRequest | ViewerResponse): ViewerRequest {
+  if (isViewerResponse(result)) assert.fail(`expected the request, got a ${result.statusCode}`);
+  return result;
+}
+
+function redirected(result: ViewerRequest | ViewerResponse, status = 301): string | undefined {
+  assert.ok(isViewerResponse(result), "expected a response, got the request");
+  assert.strictEqual(result.statusCode, status);
+  return result.headers.location.value;
+}
+
+describe("viewer-request with a domain", async () => {
+  const request = await viewerRequest({ subdomainMap: SUBDOMAIN_MAP, domain: "example.com" });
+
+  const branches: [host: string, branch: string][] = [
+    ["www.example.com", "main"],
+    ["new.example.com", "feature--new"],
+    ["feature--auth.example.com", "feature--auth"],
+    // Blocked: origin-request answers 404 for an empty branch
+    ["main.example.com", ""],
+  ];
+  for (const [host, branch] of branches) {
+    it(`routes ${host} to ${JSON.stringify(branch)}`, async () => {
+      const result = forwarded(await request(`https://${host}/gardens`));
+      assert.strictEqual(result.headers["x-branch"].value, branch);
+      assert.strictEqual(result.headers["x-forwarded-host"].value, host);
+      assert.strictEqual(result.uri, "/gardens");
+    });
+  }
+
+  const redirects: [url: string, location: string][] = [
+    ["https://example.com/", "https://www.example.com/"],
+    ["https://old.example.com/gardens/1", "https://new.example.com/gardens/1"],
+    // The distribution's own hostname is the root
+    ["https://d111111abcdef8.cloudfront.net/", "https://www.example.com/"],
+    ["https://example.com/search?q=a%20b&tag=x&tag=y&empty=", "https://www.example.com/search?q=a%20b&tag=x&tag=y&empty="],
+  ];
+  for (const [url, location] of redirects) {
+    it(`redirects ${url}`, async () => {
+      assert.strictEqual(redirected(await request(url)), location);
+    });
+  }
+
+  it("lets redirects be cached for an hour", async () => {
+    const result = await request("https://example.com/");
+    assert.ok(isViewerResponse(result));
+    assert.strictEqual(result.headers["cache-control"].value, "max-age=3600");
+  });
+
+  it("reads the subdomain without the port the dev proxy's hosts carry", async () => {
+    const local = await viewerRequest({ subdomainMap: SUBDOMAIN_MAP, domain: "localhost" });
+    assert.strictEqual(forwarded(await local("http://www.localhost:3000/")).headers["x-branch"].value, "main");
+    assert.strictEqual(redirected(await local("http://localhost:3000/")), "https://www.localhost/");
+  });
+
+  it("replaces the request id the viewer sent with CloudFront's", async () => {
+    const result = forwarded(await request("https://www.example.com/", { "x-request-id": "spoofed" }));
+    assert.strictEqual(result.headers["x-request-id"].value, "cf-request-1");
+  });
+});
+
+describe("viewer-request redirect options", async () => {
+  const request = await viewerRequest({
+    domain: "example.com",
+    subdomainMap: {
+      "moved": { redirect: "www", status: 308, maxAge: 86400 },
+      "try": { redirect: "www", status: 302, maxAge: 0 },
+      "docs": { redirect: "www", pathPrefix: "/docs" },
+      "home": { redirect: "www", keepPath: false, keepQuery: false },
+      "help": { redirect: "www", keepPath: false, pathPrefix: "/help" },
+      "www": "main",
+    },
+  });
+
+  const cases: [url: string, status: number, location: string, cacheControl: string][] = [
+    ["https://moved.example.com/a?b=1", 308, "https://www.example.com/a?b=1", "max-age=86400"],
+    ["https://try.example.com/a", 302, "https://www.example.com/a", "max-age=0"],
+    ["https://docs.example.com/guide?page=2", 301, "https://www.example.com/docs/guide?page=2", "max-age=3600"],
+    ["https://docs.example.com/", 301, "https://www.example.com/docs/", "max-age=3600"],
+    ["https://home.example.com/a/b?c=1", 301, "https://www.example.com/", "max-age=3600"],
+    ["https://help.example.com/a?c=1", 301, "https://www.example.com/help?c=1", "max-age=3600"],
+  ];
+  for (const [url, status, location, cacheControl] of cases) {
+    it(`redirects ${url} with a ${status}`, async () => {
+      const result = await request(url);
+      assert.ok(isViewerResponse(result));
+      assert.strictEqual(result.statusCode, status);
+      assert.strictEqual(result.headers.location.value, location);
+      assert.strictEqual(result.headers["cache-control"].value, cacheControl);
+    });
+  }
+
+  it("encodes the query names and values it re-serializes", async () => {
+    const result = await request("https://moved.example.com/?q=a%26b%3Dc&tag=x%20y&tag=%C3%A9&a%20b=1");
+    assert.strictEqual(redirected(result, 308), "https://www.example.com/?q=a%26b%3Dc&tag=x%20y&tag=%C3%A9&a%20b=1");
+  });
+});
+
+describe("viewer-request with patterns", async () => {
+  const request = await viewerRequest({
+    domain: "example.com",
+    subdomainMap: {
+      "": { redirect: "www" },
+      "www": "main",
+      "internal-tools": "tools",
+      "internal-*": null,
+      "pr-*": "pr-*",
+      "*.staging": "staging",
+      "*.preview": "*",
+      "old-*": { redirect: "pr-*" },
+      "*": null,
+    },
+  });
+
+  const branches: [host: string, branch: string][] = [
+    ["www.example.com", "main"],
+    // Exact keys win over patterns
+    ["internal-tools.example.com", "tools"],
+    ["internal-wiki.example.com", ""],
+    ["pr-42.example.com", "pr-42"],
+    ["feature.staging.example.com", "staging"],
+    ["feature--auth.preview.example.com", "feature--auth"],
+    // The catch-all blocks everything else. Only it spans a dot, so "*.staging" leaves this one to it
+    ["feature.example.com", ""],
+    ["a.b.staging.example.com", ""],
+    ["a.b.example.com", ""],
+  ];
+  for (const [host, branch] of branches) {
+    it(`routes ${host} to ${JSON.stringify(branch)}`, async () => {
+      assert.strictEqual(forwarded(await request(`https://${host}/`)).headers["x-branch"].value, branch);
+    });
+  }
+
+  it("fills the * of a redirect target", async () => {
+    assert.strictEqual(redirected(await request("https://old-42.example.com/a?b=1")), "https://pr-42.example.com/a?b=1");
+  });
+
+  it("follows pattern redirects without a domain", async () => {
+    const root = await viewerRequest({ subdomainMap: { "": { redirect: "old-1" }, "old-*": { redirect: "pr-*" }, "pr-*": "review-*" } });
+    assert.strictEqual(forwarded(await root("https://d111111abcdef8.cloudfront.net/")).headers["x-branch"].value, "review-1");
+  });
+});
+
+describe("viewer-request without a domain", () => {
+  const cases: [name: string, subdomainMap: TssConfig["subdomainMap"], branch: string][] = [
+    ["follows the root's redirect chain", SUBDOMAIN_MAP, "main"],
+    ["uses a mapped root", { "": "main" }, "main"],
+    ["blocks a root mapped to null", { "": null }, ""],
+    ["blocks a chain ending in null", { "": { redirect: "main" }, "main": null }, ""],
+    ["uses the last subdomain of a chain that is not mapped further", { "": { redirect: "preview" } }, "preview"],
+    ["uses the root as is when unmapped", {}, ""],
+  ];
+  for (const [name, subdomainMap, branch] of cases) {
+    it(name, async () => {
+      const request = await viewerRequest({ subdomainMap });
+      // Subdomains are ignored, every request is for the root
+      const result = forwarded(await request("https://new.d111111abcdef8.cloudfront.net/"));
+      assert.strictEqual(result.headers["x-branch"].value, branch);
+    });
+  }
+});
+
+describe("viewer-request preview protection", async () => {
+  const protection = hashPreviewProtection({ subdomains: { "*": true, "www": false }, maxAge: 3600 }, [["alice", "se:cret"]], "app");
+  const request = await viewerRequest({
+    domain: "example.com",
+    subdomainMap: { "": { redirect: "www" }, "www": "main", "old": { redirect: "www" } },
+    previewProtection: protection,
+  });
+  const basic = (login: string) => `Basic ${Buffer.from(login).toString("base64")}`;
+
+  async function login(): Promise<string> {
+    const result = await request("https://feature.example.com/__preview/login", { authorization: basic("alice:se:cret") });
+    assert.ok(isViewerResponse(result));
+    assert.strictEqual(result.statusCode, 204);
+    const cookie = result.cookies?.["app-preview"];
+    assert.ok(cookie);
+    assert.match(cookie.attributes ?? "", /Max-Age=3600; Secure; HttpOnly; SameSite=Lax; Domain=example\.com/);
+    return cookie.value;
+  }
+
+  function denied(result: ViewerRequest | ViewerResponse): ViewerResponse {
+    assert.ok(isViewerResponse(result), "expected a response, got the request");
+    assert.strictEqual(result.statusCode, 401);
+    assert.strictEqual(result.headers["cache-control"].value, "no-store");
+    return result;
+  }
+
+  it("leaves exempt subdomains and redirects alone", async () => {
+    assert.strictEqual(forwarded(await request("https://www.example.com/")).headers["x-branch"].value, "main");
+    assert.strictEqual(redirected(await request("https://old.example.com/")), "https://www.example.com/");
+  });
+
+  it("shows pages the login page", async () => {
+    const result = denied(await request("https://feature.example.com/", { accept: "text/html,*/*" }));
+    assert.strictEqual(result.headers["content-type"].value, "text/html; charset=utf-8");
+    assert.ok(typeof result.body === "object" && result.body.data.includes("/__preview/login"));
+  });
+
+  it("challenges other requests for Basic credentials", async () => {
+    const result = denied(await request("https://feature.example.com/api/gardens"));
+    assert.strictEqual(result.headers["www-authenticate"].value, 'Basic realm="Preview", charset="UTF-8"');
+  });
+
+  it("forwards valid Basic credentials without the header", async () => {
+    const result = forwarded(await request("https://feature.example.com/api/gardens", { authorization: basic("alice:se:cret") }));
+    assert.strictEqual(result.headers["x-branch"].value, "feature");
+    assert.strictEqual(result.headers.authorization, undefined);
+  });
+
+  const hosts: [host: string, branch: string][] = [
+    ["feature.example.com", "feature"],
+    // Served as feature-x by origin-request
+    ["feature.x.example.com", "feature.x"],
+  ];
+  for (const [host, branch] of hosts) {
+    it(`protects ${host}`, async () => {
+      denied(await request(`https://${host}/api/gardens`));
+      const result = forwarded(await request(`https://${host}/api/gardens`, { authorization: basic("alice:se:cret") }));
+      assert.strictEqual(result.headers["x-branch"].value, branch);
+    });
+  }
+
+  it("protects the subdomain the root resolves to without a domain", async () => {
+    const subdomains = { "preview": true, "www": false };
+    const noDomain = await viewerRequest({
+      subdomainMap: { "": { redirect: "preview" }, "preview": "feature" },
+      previewProtection: hashPreviewProtection({ subdomains, maxAge: 60 }, [["alice", "se:cret"]], "app"),
+    });
+    denied(await noDomain("https://d111111abcdef8.cloudfront.net/api/gardens"));
+    const result = forwarded(await noDomain("https://d111111abcdef8.cloudfront.net/api/gardens", { authorization: basic("alice:se:cret") }));
+    assert.strictEqual(result.headers["x-branch"].value, "feature");
+
+    const exempt = await viewerRequest({
+      subdomainMap: { "": { redirect: "www" }, "www": "main" },
+      previewProtection: hashPreviewProtection({ subdomains, maxAge: 60 }, [["alice", "se:cret"]], "app"),
+    });
+    assert.strictEqual(forwarded(await exempt("https://d111111abcdef8.cloudfront.net/")).headers["x-branch"].value, "main");
+  });
+
+  it("protects dotted subdomains no key covers when a pattern protects", async () => {
+    const patterns = await viewerRequest({
+      domain: "example.com",
+      subdomainMap: {},
+      previewProtection: hashPreviewProtection({ subdomains: { "*.preview": true, "docs.public": false }, maxAge: 60 }, [["alice", "se:cret"]], "app"),
+    });
+    denied(await patterns("https://a.b.preview.example.com/"));
+    denied(await patterns("https://feature.x.example.com/"));
+    assert.strictEqual(forwarded(await patterns("https://docs.public.example.com/")).headers["x-branch"].value, "docs.public");
+    assert.strictEqual(forwarded(await patterns("https://feature.example.com/")).headers["x-branch"].value, "feature");
+  });
+
+  const wrong: [name: string, authorization: string][] = [
+    ["a wrong password", basic("alice:secret")],
+    ["another user", basic("bob:se:cret")],
+    ["no password", basic("alice")],
+    ["another scheme", "Bearer se:cret"],
+  ];
+  for (const [name, authorization] of wrong) {
+    it(`rejects ${name}`, async () => {
+      denied(await request("https://feature.example.com/api/gardens", { authorization }));
+      denied(await request("https://feature.example.com/__preview/login", { authorization }));
+    });
+  }
+
+  it("forwards requests with the cookie the login sets, without it", async () => {
+    const cookie = await login();
+    const result = forwarded(await request("https://feature.example.com/", { cookie: `app-preview=${cookie}; theme=dark` }));
+    assert.deepStrictEqual(Object.keys(result.cookies), ["theme"]);
+  });
+
+  it("strips the cookie on exempt subdomains too", async () => {
+    const cookie = await login();
+    const result = forwarded(await request("https://www.example.com/", { cookie: `app-preview=${cookie}; theme=dark` }));
+    assert.deepStrictEqual(Object.keys(result.cookies), ["theme"]);
+  });
+
+  it("rejects forged and expired cookies", async () => {
+    const [expires, signature] = (await login()).split(".");
+    const cookies = [
+      `${Number(expires) + 3600}.${signature}`,
+      `${expires}.${"0".repeat(signature.length)}`,
+      signature,
+    ];
+    for (const cookie of cookies) {
+      denied(await request("https://feature.example.com/", { cookie: `app-preview=${cookie}` }));
+    }
+
+    const past = Math.floor(Date.now() / 1000) - 3600;
+    const expired = `${past}.${createHmac("sha256", protection.cookieKey).update(String(past)).digest("hex")}`;
+    denied(await request("https://feature.example.com/", { cookie: `app-preview=${expired}` }));
+  });
+
+  it("keeps logins across builds until the credentials change", () => {
+    const rebuilt = hashPreviewProtection({ subdomains: {}, maxAge: 60 }, [["alice", "se:cret"]], "app");
+    assert.strictEqual(rebuilt.cookieKey, protection.cookieKey);
+    assert.notStrictEqual(rebuilt.salt, protection.salt);
+    const changed = hashPreviewProtection({ subdomains: {}, maxAge: 60 }, [["alice", "new"]], "app");
+    assert.notStrictEqual(changed.cookieKey, protection.cookieKey);
+  });
+
+  it("hashes the credentials it builds in", async () => {
+    const code = await buildViewerRequest({ subdomainMap: {}, domain: "example.com", previewProtection: protection });
+    assert.ok(!code.includes("se:cret"));
+  });
+});
+
+describe("viewerRequestHandler", () => {
+  it("runs code without the APIs CloudFront Functions lack", async () => {
+    const handler = viewerRequestHandler(`
+      function handler(event) {
+        event.request.headers.globals = { value: [typeof setTimeout, typeof process, typeof fetch].join() };
+        return event.request;
+      }
+    `);
+    const result = forwarded(await handler(viewerRequestEvent({ method: "GET", url: "/", headers: {}, clientIp: "", requestId: "" })));
+    assert.strictEqual(result.headers.globals.value, "undefined,undefined,undefined");
+  });
+
+  it("rejects eval and modules CloudFront Functions do not have", async () => {
+    const event = viewerRequestEvent({ method: "GET", url: "/", headers: {}, clientIp: "", requestId: "" });
+    await assert.rejects(viewerRequestHandler('function handler() { return eval("1"); }')(event), /Code generation from strings disallowed/);
+    await assert.rejects(viewerRequestHandler('function handler() { return require("fs"); }')(event), /Cannot find module 'fs'/);
+  });
+});
@@ -2,37 +2,225 @@
 // Runs at VIEWER_REQUEST before CloudFront modifies the Host header for S3 origin
 
 import type { CloudFrontFunctionsEvent } from "aws-lambda";
-import type { SubdomainMapValue, TssConfig } from "shared/config";
+import type { SubdomainMapValue, SubdomainRedirect, TssConfig } from "shared/config";
+import { PREVIEW_LOGIN_PATH, type PreviewProtection } from "shared/preview-protection";
+import type { SubdomainMatch, SubdomainPattern } from "shared/subdomain-map";
 
-// Injected at build time from tss.json. DOMAIN_CONFIG is "" when no custom domain is set.
+// Injected at build time from tss.json, split by compileSubdomainMap into exact
+// keys and patterns. DOMAIN_CONFIG is "" when no custom domain is set, and
+// PREVIEW_PROTECTION_CONFIG null when previewProtection is not.
 declare const SUBDOMAIN_MAP_CONFIG: TssConfig["subdomainMap"];
+declare const SUBDOMAIN_PATTERNS_CONFIG: SubdomainPattern[];
 declare const DOMAIN_CONFIG: string;
+declare const PREVIEW_PROTECTION_CONFIG: PreviewProtection | null;
 
 const SUBDOMAIN_MAP = SUBDOMAIN_MAP_CONFIG;
+const SUBDOMAIN_PATTERNS = SUBDOMAIN_PATTERNS_CONFIG;
 const DOMAIN = DOMAIN_CONFIG;
+const PREVIEW_PROTECTION = PREVIEW_PROTECTION_CONFIG;
+
+// The parts of CloudFront's buffer and crypto modules used here. Functions are scripts, not modules, so no imports
+interface Hash {
+  update(data: string): Hash;
+  digest(encoding: "hex"): string;
+}
+/* eslint-disable @typescript-eslint/no-require-imports */
+const crypto = require("crypto") as { createHash(algorithm: "sha256"): Hash; createHmac(algorithm: "sha256", key: string): Hash };
+const Buffer = (require("buffer") as { Buffer: { from(data: string, encoding: "base64"): { toString(encoding: "utf8"): string } } }).Buffer;
+/* eslint-enable @typescript-eslint/no-require-imports */
 
 /** Type guard for redirect entries */
-function isRedirect(value: SubdomainMapValue): value is { redirect: string } {
+function isRedirect(value: SubdomainMapValue | undefined): value is SubdomainRedirect {
   return typeof value === "object" && value !== null && "redirect" in value;
 }
 
+// Same as lookupSubdomain in shared/subdomain-map: the exact key, else the first
+// (most specific) pattern whose `*` matches a non-empty part without dots, or the
+// bare `*` catch-all, which matches dots too
+function lookup<V>(exact: Record<string, V>, patterns: SubdomainPattern<V>[], subdomain: string): SubdomainMatch<V> {
+  if (Object.prototype.hasOwnProperty.call(exact, subdomain)) {
+    return { value: exact[subdomain], capture: "" };
+  }
+  for (let i = 0; i < patterns.length; i++) {
+    const prefix = patterns[i][0];
+    const suffix = patterns[i][1];
+    const end = subdomain.length - suffix.length;
+    if (end <= prefix.length) continue;
+    if (subdomain.slice(0, prefix.length) !== prefix || subdomain.slice(end) !== suffix) continue;
+    const capture = subdomain.slice(prefix.length, end);
+    if (capture.indexOf(".") === -1 || (prefix === "" && suffix === "")) return { value: patterns[i][2], capture: capture };
+  }
+  return { value: undefined, capture: "" };
+}
+
+// "*.preview" with capture "feature" → "feature.preview"
+function fillWildcard(value: string, capture: string): string {
+  return value.split("*").join(capture);
+}
+
 // Resolve a subdomain to its final branch by following any `redirect` chain in the
 // map. Used when there is no custom domain — we can't 301 to a different host, so we
-// just route to the redirect target's branch directly.
-function resolveBranch(start: string): string {
+// just route to the redirect target's branch directly. `subdomain` is where the
+// chain ended, which decides preview protection like a request for it would.
+function resolveBranch(start: string): { subdomain: string; branch: string } {
   let current = start;
   for (let i = 0; i < 10; i++) {
-    const v = SUBDOMAIN_MAP[current];
-    if (v === undefined) return current;
-    if (v === null) return "";
-    if (typeof v === "string") return v;
+    const match = lookup(SUBDOMAIN_MAP, SUBDOMAIN_PATTERNS, current);
+    const v = match.value;
+    if (v === undefined) return { subdomain: current, branch: current };
+    if (v === null) return { subdomain: current, branch: "" };
+    if (typeof v === "string") return { subdomain: current, branch: fillWildcard(v, match.capture) };
     if (isRedirect(v)) {
-      current = v.redirect;
+      current = fillWildcard(v.redirect, match.capture);
       continue;
     }
-    return current;
+    return { subdomain: current, branch: current };
   }
-  return current;
+  return { subdomain: current, branch: current };
+}
+
+const STATUS_DESCRIPTIONS: Record<number, string> = {
+  301: "Moved Permanently",
+  302: "Found",
+  307: "Temporary Redirect",
+  308: "Permanent Redirect",
+};
+
+// The response for a redirect entry: a 301 cached for an hour that keeps the path and query unless it says otherwise
+function redirectResponse(request: CloudFrontFunctionsEvent["request"], redirect: SubdomainRedirect, targetHost: string) {
+  const status = redirect.status || 301;
+  const prefix = redirect.pathPrefix || "";
+  const path = redirect.keepPath === false ? prefix || "/" : prefix + request.uri;
+
+  // Serialize querystring back (CloudFront parses it into an object and decodes it)
+  const qsParts: string[] = [];
+  if (redirect.keepQuery !== false) {
+    for (const k in request.querystring) {
+      const v = request.querystring[k];
+      const entries = v.multiValue || [v];
+      for (let i = 0; i < entries.length; i++) {
+        qsParts.push(encodeURIComponent(k) + "=" + encodeURIComponent(entries[i].value));
+      }
+    }
+  }
+  const qs = qsParts.join("&");
+
+  return {
+    statusCode: status,
+    statusDescription: STATUS_DESCRIPTIONS[status],
+    headers: {
+      location: { value: `https://${targetHost}${path}${qs ? `?${qs}` : ""}` },
+      "cache-control": { value: `max-age=${redirect.maxAge === undefined ? 3600 : redirect.maxAge}` },
+    },
+  };
+}
+
+const NO_STORE = { "cache-control": { value: "no-store" } };
+
+// Asks for a login over fetch, which sends it as Basic credentials to PREVIEW_LOGIN_PATH and reloads once that sets the cookie
+const LOGIN_PAGE = '<!doctype html><meta charset="utf-8"><meta name="viewport" content="width=device-width"><title>Preview login</title>'
+  + '<form id="f" style="font-family:system-ui;max-width:18rem;margin:20vh auto"><h1>Preview</h1>'
+  + '<p><input id="u" placeholder="User" autocomplete="username" required></p>'
+  + '<p><input id="p" type="password" placeholder="Password" autocomplete="current-password" required></p>'
+  + '<button>Log in</button> <span id="m"></span></form>'
+  + "<script>f.onsubmit=function(e){e.preventDefault();"
+  + 'fetch("' + PREVIEW_LOGIN_PATH + '",{headers:{Authorization:"Basic "+btoa(unescape(encodeURIComponent(u.value+":"+p.value)))}})'
+  + '.then(function(r){r.ok?location.reload():m.textContent="Wrong user or password"})}</script>';
+
+// Compares in time that depends only on the length, so a signature cannot be guessed byte by byte
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+// Whether an Authorization header holds Basic credentials hashing to one of the configured logins.
+// One salted SHA-256 is all a function's time allows, so the login is a gate against visitors, not a vault.
+function isValidLogin(protection: PreviewProtection, authorization: string | undefined): boolean {
+  if (!authorization || authorization.slice(0, 6).toLowerCase() !== "basic ") return false;
+  const login = Buffer.from(authorization.slice(6).trim(), "base64").toString("utf8");
+  if (login.indexOf(":") === -1) return false;
+  const hash = crypto.createHash("sha256").update(protection.salt + ":" + login).digest("hex");
+  let valid = false;
+  for (let i = 0; i < protection.credentials.length; i++) {
+    if (safeEqual(protection.credentials[i], hash)) valid = true;
+  }
+  return valid;
+}
+
+function signCookie(protection: PreviewProtection, expires: number): string {
+  return crypto.createHmac("sha256", protection.cookieKey).update(String(expires)).digest("hex");
+}
+
+// The cookie is "{expires}.{signature}", expires in seconds since the epoch
+function isValidCookie(protection: PreviewProtection, value: string | undefined): boolean {
+  const dot = value ? value.indexOf(".") : -1;
+  if (!value || dot === -1) return false;
+  const expires = Number(value.slice(0, dot));
+  return expires > Date.now() / 1000 && safeEqual(value.slice(dot + 1), signCookie(protection, expires));
+}
+
+// Set on the whole domain, so one login covers every preview; the handler strips it
+// from every request, protected or not. Browsers take no Domain=localhost, so the
+// dev proxy's is host-only.
+function previewCookie(protection: PreviewProtection) {
+  const expires = Math.floor(Date.now() / 1000) + protection.maxAge;
+  const domain = DOMAIN.indexOf(".") === -1 ? "" : "; Domain=" + DOMAIN;
+  return {
+    [protection.cookieName]: {
+      value: expires + "." + signCookie(protection, expires),
+      attributes: "Path=/; Max-Age=" + protection.maxAge + "; Secure; HttpOnly; SameSite=Lax" + domain,
+    },
+  };
+}
+
+// Patterns other than the bare * never match a dotted subdomain, which origin-request
+// still serves (a.b → a-b), so one no key covers is protected if any pattern is
+function isProtected(subdomains: PreviewProtection["subdomains"], subdomain: string): boolean {
+  const value = lookup(subdomains.exact, subdomains.patterns, subdomain).value;
+  if (value !== undefined) return value;
+  if (subdomain.indexOf(".") === -1) return false;
+  for (let i = 0; i < subdomains.patterns.length; i++) {
+    if (subdomains.patterns[i][2]) return true;
+  }
+  return false;
+}
+
+/**
+ * Let a request to a protected subdomain through if it carries a valid preview
+ * cookie or Basic credentials, which are then not forwarded to the origin.
+ * Otherwise pages get the login page and everything else a Basic challenge.
+ */
+function checkPreviewAccess(protection: PreviewProtection, request: CloudFrontFunctionsEvent["request"], cookie: string | undefined) {
+  const authorization = request.headers.authorization;
+  const validLogin = isValidLogin(protection, authorization && authorization.value);
+
+  if (request.uri === PREVIEW_LOGIN_PATH) {
+    return validLogin
+      ? { statusCode: 204, statusDescription: "No Content", headers: NO_STORE, cookies: previewCookie(protection) }
+      : { statusCode: 401, statusDescription: "Unauthorized", headers: NO_STORE };
+  }
+
+  if (!validLogin && !isValidCookie(protection, cookie)) {
+    const accept = request.headers.accept ? request.headers.accept.value : "";
+    if (accept.indexOf("text/html") !== -1) {
+      return {
+        statusCode: 401,
+        statusDescription: "Unauthorized",
+        headers: { "content-type": { value: "text/html; charset=utf-8" }, "cache-control": NO_STORE["cache-control"] },
+        body: { encoding: "text" as const, data: LOGIN_PAGE },
+      };
+    }
+    return {
+      statusCode: 401,
+      statusDescription: "Unauthorized",
+      headers: { "www-authenticate": { value: 'Basic realm="Preview", charset="UTF-8"' }, "cache-control": NO_STORE["cache-control"] },
+    };
+  }
+
+  if (validLogin) delete request.headers.authorization;
+  return null;
 }
 
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -40,59 +228,59 @@ function handler(event: CloudFrontFunctionsEvent) {
   const request = event.request;
   const host = request.headers.host?.value ?? "";
 
+  // Correlates the edge and backend logs of this request; replaces any X-Request-Id the viewer sent
+  request.headers["x-request-id"] = { value: event.context.requestId };
+
+  // The preview cookie is sent to every subdomain but never reaches an origin
+  const loginCookie = PREVIEW_PROTECTION ? request.cookies[PREVIEW_PROTECTION.cookieName] : undefined;
+  if (PREVIEW_PROTECTION) delete request.cookies[PREVIEW_PROTECTION.cookieName];
+
   // No custom domain: every request hits the cloudfront.net hostname, so
   // subdomain-based routing isn't meaningful. Always use the root subdomain
   // and follow any redirect chain in-process (we can't 301 to a host that
   // doesn't exist).
   if (!DOMAIN) {
-    const branch = resolveBranch("");
-    request.headers["x-branch"] = { value: branch };
+    const resolved = resolveBranch("");
+    request.headers["x-branch"] = { value: resolved.branch };
     request.headers["x-forwarded-host"] = { value: host };
+
+    if (PREVIEW_PROTECTION && resolved.branch && isProtected(PREVIEW_PROTECTION.subdomains, resolved.subdomain)) {
+      const denied = checkPreviewAccess(PREVIEW_PROTECTION, request, loginCookie && loginCookie.value);
+      if (denied) return denied;
+    }
+
     return request;
   }
 
   // Extract subdomain: feature--test.example.com → feature--test
   // example.com → ""
-  const parts = host.split(".");
-  const subdomain = parts.length >= 3 ? parts[0] : "";
+  // The dev proxy builds with DOMAIN "localhost", where hosts carry a port: feature--test.localhost:3000
+  const hostname = host.split(":")[0];
+  const suffix = "." + DOMAIN;
+  const subdomain = hostname.slice(-suffix.length) === suffix ? hostname.slice(0, -suffix.length) : "";
 
-  const mapped = SUBDOMAIN_MAP[subdomain];
+  const match = lookup(SUBDOMAIN_MAP, SUBDOMAIN_PATTERNS, subdomain);
+  const mapped = match.value;
 
   if (isRedirect(mapped)) {
-    // Handle redirect - return 301 response
-    const targetSubdomain = mapped.redirect;
+    const targetSubdomain = fillWildcard(mapped.redirect, match.capture);
     const targetHost = targetSubdomain ? `${targetSubdomain}.${DOMAIN}` : DOMAIN;
-
-    // Serialize querystring back (CloudFront parses it into an object)
-    const qsParts: string[] = [];
-    for (const k in request.querystring) {
-      const v = request.querystring[k];
-      const entries = v.multiValue || [v];
-      for (let i = 0; i < entries.length; i++) {
-        qsParts.push(k + "=" + entries[i].value);
-      }
-    }
-    const qs = qsParts.join("&");
-
-    const redirectUrl = `https://${targetHost}${request.uri}${qs ? `?${qs}` : ""}`;
-
-    return {
-      statusCode: 301,
-      statusDescription: "Moved Permanently",
-      headers: {
-        location: { value: redirectUrl },
-        "cache-control": { value: "max-age=3600" },
-      },
-    };
+    return redirectResponse(request, mapped, targetHost);
   } else {
     // Apply mapping, or use subdomain as-is
     // null = blocked (will 404), undefined = use subdomain as-is
-    const branch = mapped === null ? "" : (mapped ?? subdomain);
+    const branch = mapped === null ? "" : mapped === undefined ? subdomain : fillWildcard(mapped, match.capture);
 
     // Store in custom headers for Lambda@Edge to read at origin-request
     request.headers["x-branch"] = { value: branch };
     request.headers["x-forwarded-host"] = { value: host };
 
+    // Blocked branches 404 anyway, so only the ones served need a login
+    if (PREVIEW_PROTECTION && branch && isProtected(PREVIEW_PROTECTION.subdomains, subdomain)) {
+      const denied = checkPreviewAccess(PREVIEW_PROTECTION, request, loginCookie && loginCookie.value);
+      if (denied) return denied;
+    }
+
     return request;
   }
 }
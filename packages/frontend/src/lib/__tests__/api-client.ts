@@ -0,0 +1,367 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { ApiClient, ApiError } from "../api-client";
+
+type TestRoutes = {
+  "/api/gardens": {
+    POST: {
+      params: never;
+      query: never;
+      body: { name: string };
+      response: { id: string };
+      event: never;
+      error: {
+        code: "VALIDATION_ERROR";
+        message: string;
+        issues: { path: (string | number)[]; message: string; code: string }[];
+      } | {
+        code: "HTTP_ERROR" | "INTERNAL_SERVER_ERROR";
+        message: string;
+      } | {
+        code: "RATE_LIMITED";
+        message: string;
+        retryAfter: number;
+      } | {
+        code: "CONFLICT";
+        message: string;
+        data: { existingId: string };
+      };
+    };
+  };
+  "/api/search": {
+    GET: {
+      params: never;
+      query: {
+        name?: string;
+        page?: number;
+        draft?: boolean;
+        id?: bigint;
+        at?: Date;
+        tags?: string[];
+        filter?: { size: { min: number }; tags: string[] };
+        items?: { id: number }[];
+      };
+      body: never;
+      response: unknown[];
+      event: never;
+      error: { code: "HTTP_ERROR" | "INTERNAL_SERVER_ERROR"; message: string };
+    };
+  };
+  "/api/photos": {
+    POST: {
+      params: never;
+      query: never;
+      body: { caption: string; photos: File[] };
+      response: { sizes: number[] };
+      event: never;
+      error: { code: "HTTP_ERROR" | "INTERNAL_SERVER_ERROR"; message: string };
+    };
+  };
+  "/api/ticks": {
+    GET: {
+      params: never;
+      query: never;
+      body: never;
+      response: never;
+      event: { tick: number };
+      error: {
+        code: "HTTP_ERROR" | "INTERNAL_SERVER_ERROR";
+        message: string;
+      } | {
+        code: "EXPIRED";
+        message: string;
+      };
+    };
+  };
+};
+
+function mockFetch(status: number, body: string) {
+  const fetchMock = vi.fn<(url: string, init: RequestInit) => Promise<Response>>(() => Promise.resolve(new Response(body, { status })));
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("ApiClient errors", () => {
+  const api = new ApiClient<TestRoutes>();
+
+  it("throws ApiError with the validation issues", async () => {
+    mockFetch(400, JSON.stringify({
+      code: "VALIDATION_ERROR",
+      message: "Invalid request body",
+      issues: [{ path: ["body", "name"], message: "Too small", code: "too_small" }],
+    }));
+
+    const error = await api.fetch("/api/gardens", "POST", { body: { name: "" } }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({
+      status: 400,
+      code: "VALIDATION_ERROR",
+      message: "Invalid request body",
+      issues: [{ path: ["body", "name"], message: "Too small", code: "too_small" }],
+    });
+  });
+
+  it("falls back to HTTP_ERROR for non-JSON responses", async () => {
+    mockFetch(502, "Bad Gateway");
+
+    const error = await api.fetch("/api/gardens", "POST", { body: { name: "zen" } }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 502, code: "HTTP_ERROR", message: "HTTP 502", issues: [] });
+  });
+
+  it("exposes how long to wait after a rate limit", async () => {
+    mockFetch(429, JSON.stringify({ code: "RATE_LIMITED", message: "Too many requests", retryAfter: 42 }));
+
+    const error = await api.fetch("/api/gardens", "POST", { body: { name: "zen" } }).catch((e: unknown) => e);
+    expect(error).toMatchObject({ status: 429, code: "RATE_LIMITED", retryAfter: 42 });
+  });
+});
+
+// Same query strings the backend's decodeQuery tests read back
+describe("ApiClient query encoding", () => {
+  const api = new ApiClient<TestRoutes>();
+
+  async function encode(query: TestRoutes["/api/search"]["GET"]["query"]) {
+    const fetchMock = mockFetch(200, "[]");
+    await api.fetch("/api/search", "GET", { query });
+    const [url] = fetchMock.mock.calls[0];
+    return new URLSearchParams(url.split("?")[1]).toString();
+  }
+
+  it.each([
+    [{ name: "moss", page: undefined }, "name=moss"],
+    [{ page: 2, draft: false, id: 9007199254740993n, at: new Date(0) }, "page=2&draft=false&id=9007199254740993&at=1970-01-01T00:00:00.000Z"],
+    [{ tags: ["a", "b"] }, "tags=a&tags=b"],
+    [{ filter: { size: { min: 1 }, tags: ["moss", "stone"] } }, "filter[size][min]=1&filter[tags]=moss&filter[tags]=stone"],
+    [{ items: [{ id: 1 }, { id: 2 }] }, "items=%7B%22id%22%3A1%7D&items=%7B%22id%22%3A2%7D"],
+  ])("encodes %o", async (query, expected) => {
+    expect(await encode(query)).toBe(new URLSearchParams(expected).toString());
+  });
+});
+
+describe("ApiClient request bodies", () => {
+  const api = new ApiClient<TestRoutes>();
+
+  it("sends plain bodies as JSON", async () => {
+    const fetchMock = mockFetch(200, JSON.stringify({ id: "g-1" }));
+
+    await api.fetch("/api/gardens", "POST", { body: { name: "zen" } });
+    const [, init] = fetchMock.mock.calls[0];
+    expect(new Headers(init.headers).get("Content-Type")).toBe("application/json");
+    expect(init.body).toBe(JSON.stringify({ name: "zen" }));
+  });
+
+  it("sends no Content-Type without a body", async () => {
+    const fetchMock = mockFetch(200, "[]");
+
+    await api.fetch("/api/search", "GET", { query: {} });
+    const [, init] = fetchMock.mock.calls[0];
+    expect(new Headers(init.headers).has("Content-Type")).toBe(false);
+    expect(init.body).toBeUndefined();
+  });
+
+  it("builds FormData when the body has files", async () => {
+    const fetchMock = mockFetch(200, JSON.stringify({ sizes: [3, 4] }));
+    const photos = [new File(["png"], "a.png"), new File(["jpeg"], "b.jpg")];
+
+    await api.fetch("/api/photos", "POST", { body: { caption: "moss", photos } });
+    const [, init] = fetchMock.mock.calls[0];
+    expect(new Headers(init.headers).has("Content-Type")).toBe(false);
+    expect(init.body).toBeInstanceOf(FormData);
+
+    const form = init.body as FormData;
+    expect(form.get("caption")).toBe("moss");
+    expect(form.getAll("photos").map((photo) => (photo as File).name)).toEqual(["a.png", "b.jpg"]);
+  });
+});
+
+describe("ApiClient request pipeline", () => {
+  const noDelay = { baseDelay: 0 };
+
+  it("applies the base URL, default headers and interceptors", async () => {
+    const fetchMock = mockFetch(200, JSON.stringify({ id: "g-1" }));
+    const seen: number[] = [];
+    const api = new ApiClient<TestRoutes>({
+      baseUrl: "https://example.com",
+      headers: { "X-Client": "web" },
+      beforeRequest: [(request) => request.init.headers.set("Authorization", "Bearer token")],
+      afterResponse: [(response) => void seen.push(response.status)],
+    });
+
+    await api.fetch("/api/gardens", "POST", { body: { name: "zen" }, headers: { "X-Trace": "1" } });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://example.com/api/gardens");
+    expect(Object.fromEntries(new Headers(init.headers))).toMatchObject({
+      "x-client": "web",
+      "x-trace": "1",
+      "authorization": "Bearer token",
+    });
+    expect(seen).toEqual([200]);
+  });
+
+  it("retries idempotent requests after 5xx responses", async () => {
+    const fetchMock = vi.fn<(url: string, init: RequestInit) => Promise<Response>>()
+      .mockResolvedValueOnce(new Response("", { status: 503 }))
+      .mockResolvedValueOnce(new Response("[]", { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const api = new ApiClient<TestRoutes>({ retry: noDelay });
+    await expect(api.fetch("/api/search", "GET", { query: {} })).resolves.toEqual([]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries network failures up to the attempt limit", async () => {
+    const fetchMock = vi.fn(() => Promise.reject(new TypeError("Failed to fetch")));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const api = new ApiClient<TestRoutes>({ retry: { ...noDelay, attempts: 3 } });
+    await expect(api.fetch("/api/search", "GET", { query: {} })).rejects.toThrow("Failed to fetch");
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it("retries 429s once Retry-After has passed", async () => {
+    vi.useFakeTimers();
+    const fetchMock = vi.fn<(url: string, init: RequestInit) => Promise<Response>>()
+      .mockResolvedValueOnce(new Response("", { status: 429, headers: { "Retry-After": "2" } }))
+      .mockResolvedValueOnce(new Response("[]", { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const api = new ApiClient<TestRoutes>();
+    const pending = api.fetch("/api/search", "GET", { query: {} });
+    await vi.advanceTimersByTimeAsync(1_999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(pending).resolves.toEqual([]);
+    vi.useRealTimers();
+  });
+
+  it("gives up on 429s that ask to wait longer than maxDelay", async () => {
+    const fetchMock = vi.fn(() => Promise.resolve(new Response(
+      JSON.stringify({ code: "RATE_LIMITED", message: "Too many requests", retryAfter: 60 }),
+      { status: 429, headers: { "Retry-After": "60" } },
+    )));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const api = new ApiClient<TestRoutes>();
+    await expect(api.fetch("/api/search", "GET", { query: {} })).rejects.toMatchObject({ status: 429, retryAfter: 60 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("removes its abort listener from the caller's signal after each delay", async () => {
+    mockFetch(503, "");
+    const { signal } = new AbortController();
+    const added = vi.spyOn(signal, "addEventListener");
+    const removed = vi.spyOn(signal, "removeEventListener");
+
+    const api = new ApiClient<TestRoutes>({ retry: { ...noDelay, attempts: 3 } });
+    await expect(api.fetch("/api/search", "GET", { query: {}, signal })).rejects.toMatchObject({ status: 503 });
+    expect(added).toHaveBeenCalledTimes(3);
+    expect(removed.mock.calls).toEqual(added.mock.calls.map(([type, listener]) => [type, listener]));
+  });
+
+  it("skips the delay when the caller aborted before it starts", async () => {
+    const fetchMock = mockFetch(503, "");
+    const controller = new AbortController();
+
+    const api = new ApiClient<TestRoutes>({
+      retry: { baseDelay: 60_000 },
+      afterResponse: [() => controller.abort()],
+    });
+    await expect(api.fetch("/api/search", "GET", { query: {}, signal: controller.signal })).rejects.toMatchObject({ name: "AbortError" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not retry non-idempotent methods", async () => {
+    const fetchMock = mockFetch(503, "");
+
+    const api = new ApiClient<TestRoutes>({ retry: noDelay });
+    await expect(api.fetch("/api/gardens", "POST", { body: { name: "zen" } })).rejects.toMatchObject({ status: 503 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  describe("with a hanging server", () => {
+    function mockHangingFetch() {
+      const fetchMock = vi.fn((_url: string, init: RequestInit) => new Promise<Response>((_, reject) => {
+        init.signal!.addEventListener("abort", () => reject(init.signal!.reason as Error));
+      }));
+      vi.stubGlobal("fetch", fetchMock);
+      return fetchMock;
+    }
+
+    it("times out each attempt", async () => {
+      const fetchMock = mockHangingFetch();
+
+      const api = new ApiClient<TestRoutes>({ timeout: 5, retry: { ...noDelay, attempts: 1 } });
+      await expect(api.fetch("/api/search", "GET", { query: {} })).rejects.toMatchObject({ name: "TimeoutError" });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("stops at once when the caller aborts", async () => {
+      const fetchMock = mockHangingFetch();
+      const controller = new AbortController();
+
+      const api = new ApiClient<TestRoutes>({ retry: noDelay });
+      const pending = api.fetch("/api/search", "GET", { query: {}, signal: controller.signal });
+      controller.abort();
+      await expect(pending).rejects.toMatchObject({ name: "AbortError" });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+});
+
+describe("ApiClient.isError", () => {
+  const api = new ApiClient<TestRoutes>();
+
+  it("narrows to the route's declared errors", async () => {
+    mockFetch(409, JSON.stringify({ code: "CONFLICT", message: "Conflict", data: { existingId: "g-1" } }));
+
+    const error = await api.fetch("/api/gardens", "POST", { body: { name: "zen" } }).catch((e: unknown) => e);
+    expect(api.isError(error, "/api/gardens", "POST")).toBe(true);
+    if (!api.isError(error, "/api/gardens", "POST")) return;
+
+    expect(error.status).toBe(409);
+    expect(error.body.code === "CONFLICT" && error.body.data.existingId).toBe("g-1");
+  });
+
+  it("rejects errors from other requests", () => {
+    expect(api.isError(new Error("boom"), "/api/gardens", "POST")).toBe(false);
+  });
+});
+
+describe("ApiClient.stream", () => {
+  const api = new ApiClient<TestRoutes>();
+
+  async function collect(events: AsyncIterable<{ tick: number }>) {
+    const ticks: number[] = [];
+    for await (const { tick } of events) ticks.push(tick);
+    return ticks;
+  }
+
+  it("yields the typed events", async () => {
+    mockFetch(200, "data: {\"tick\":0}\n\ndata: {\"tick\":1}\n\n");
+
+    expect(await collect(api.stream("/api/ticks", "GET"))).toEqual([0, 1]);
+  });
+
+  it("throws ApiError for an error event", async () => {
+    mockFetch(200, "data: {\"tick\":0}\n\nevent: error\ndata: {\"status\":410,\"body\":{\"code\":\"EXPIRED\",\"message\":\"Expired\"}}\n\n");
+
+    const ticks: number[] = [];
+    const error = await (async () => {
+      for await (const { tick } of api.stream("/api/ticks", "GET")) ticks.push(tick);
+    })().catch((e: unknown) => e);
+    expect(ticks).toEqual([0]);
+    expect(api.isError(error, "/api/ticks", "GET")).toBe(true);
+    expect(error).toMatchObject({ status: 410, code: "EXPIRED" });
+  });
+
+  it("throws ApiError when the stream cannot start", async () => {
+    mockFetch(401, JSON.stringify({ code: "HTTP_ERROR", message: "Unauthorized" }));
+
+    await expect(collect(api.stream("/api/ticks", "GET"))).rejects.toMatchObject({ status: 401, code: "HTTP_ERROR" });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { QueryCache, type QueryKey } from "../api-query";
+
+const garden = (id: string): QueryKey => ({ path: "/api/gardens/:id", method: "GET", params: { id } });
+
+function createCache(staleTime?: number) {
+  const fetcher = vi.fn((key: QueryKey) => Promise.resolve({ key }));
+  return { cache: new QueryCache(fetcher, staleTime), fetcher };
+}
+
+describe("QueryCache", () => {
+  it("shares one request between concurrent loads of a key", async () => {
+    const { cache, fetcher } = createCache();
+
+    const [a, b] = await Promise.all([cache.load(garden("1")), cache.load(garden("1"))]);
+    expect(a).toBe(b);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("keys by values, not object identity or key order", () => {
+    const { cache } = createCache();
+
+    const key = cache.intern({ path: "/api/gardens", method: "GET", query: { page: 1, sort: "asc" } });
+    expect(cache.intern({ path: "/api/gardens", method: "GET", query: { sort: "asc", page: 1 } })).toBe(key);
+    expect(cache.intern({ path: "/api/gardens", method: "GET", query: { sort: "desc", page: 1 } })).not.toBe(key);
+  });
+
+  it("serves fresh data from the cache and refetches once stale", async () => {
+    vi.useFakeTimers();
+    const { cache, fetcher } = createCache(1000);
+
+    await cache.load(garden("1"));
+    await cache.load(garden("1"));
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1000);
+    await cache.load(garden("1"));
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    vi.useRealTimers();
+  });
+
+  it("exposes each state change to subscribers", async () => {
+    const { cache } = createCache();
+    const states: string[] = [];
+    cache.subscribe(garden("1"), () => {
+      const { status, isFetching } = cache.getState(garden("1"));
+      states.push(`${status}${isFetching ? "+fetching" : ""}`);
+    });
+
+    await cache.load(garden("1"));
+    expect(states).toEqual(["pending+fetching", "success"]);
+    expect(cache.getState(garden("1")).data).toEqual({ key: garden("1") });
+  });
+
+  it("records errors and rejects the load", async () => {
+    const cache = new QueryCache(() => Promise.reject(new Error("offline")));
+
+    await expect(cache.load(garden("1"))).rejects.toThrow("offline");
+    expect(cache.getState(garden("1"))).toMatchObject({ status: "error", isFetching: false });
+  });
+
+  it("drops entries without subscribers after gcTime", async () => {
+    vi.useFakeTimers();
+    const fetcher = vi.fn((key: QueryKey) => Promise.resolve({ key }));
+    const cache = new QueryCache(fetcher, Infinity, 1000);
+
+    await cache.load(garden("1"));
+    const unsubscribe = cache.subscribe(garden("2"), () => {});
+    await cache.load(garden("2"));
+
+    vi.advanceTimersByTime(1000);
+    expect(cache.getState(garden("1")).status).toBe("pending");
+    expect(cache.getState(garden("2")).status).toBe("success");
+
+    unsubscribe();
+    vi.advanceTimersByTime(999);
+    cache.subscribe(garden("2"), () => {});
+    vi.advanceTimersByTime(1000);
+    expect(cache.getState(garden("2")).status).toBe("success");
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    vi.useRealTimers();
+  });
+
+  describe("invalidate", () => {
+    it("refetches subscribed entries matching the params", async () => {
+      const { cache, fetcher } = createCache(Infinity);
+      cache.subscribe(garden("1"), () => {});
+      cache.subscribe(garden("2"), () => {});
+      await Promise.all([cache.load(garden("1")), cache.load(garden("2"))]);
+
+      await cache.invalidate({ path: "/api/gardens/:id", params: { id: "1" } });
+      expect(fetcher.mock.calls.map(([key]) => key.params)).toEqual([{ id: "1" }, { id: "2" }, { id: "1" }]);
+    });
+
+    it("lets unsubscribed entries refetch on their next load", async () => {
+      const { cache, fetcher } = createCache(Infinity);
+      await cache.load(garden("1"));
+
+      await cache.invalidate({ path: "/api/gardens/:id" });
+      expect(fetcher).toHaveBeenCalledTimes(1);
+
+      await cache.load(garden("1"));
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+
+import { signInUrl } from "../auth";
+
+describe("signInUrl", () => {
+  it("points at the provider's sign-in route", () => {
+    expect(signInUrl("google")).toBe("/api/auth/sign-in/google");
+  });
+
+  it("carries where to return to and who is signing in", () => {
+    expect(signInUrl("fake", { callbackURL: "/garden?id=1", loginHint: "kurt@example.com" }))
+      .toBe("/api/auth/sign-in/fake?callbackURL=%2Fgarden%3Fid%3D1&loginHint=kurt%40example.com");
+  });
+});
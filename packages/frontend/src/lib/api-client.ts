@@ -1,85 +1,297 @@
-// Check if a type is never
-type IsNever<T> = [T] extends [never] ? true : false;
+import { encodeQuery } from "shared/query-encoding";
+import { encodeBody, type FetchOptions, type HasRequired } from "shared/route-request";
+
+export type { FetchOptions, HasRequired };
 
 // Routes shape from backend's ExtractRoutes
-type Routes = {
+export type Routes = {
   [path: string]: {
     [method: string]: {
       params: unknown;
       query: unknown;
       body: unknown;
       response: unknown;
+      event: unknown;
+      error: unknown;
     };
   };
 };
 
-// Build options type based on what the route needs
-type FetchOptions<T> = (IsNever<T extends { params: infer P } ? P : never> extends true
-  ? unknown
-  : { params: T extends { params: infer P } ? P : never }) &
-  (IsNever<T extends { query: infer Q } ? Q : never> extends true
-    ? unknown
-    : { query: T extends { query: infer Q } ? Q : never }) &
-    (IsNever<T extends { body: infer B } ? B : never> extends true
-      ? unknown
-      : { body: T extends { body: infer B } ? B : never });
-
-// Check if options are required
-type HasRequired<T> = IsNever<T extends { params: infer P } ? P : never> extends true
-  ? IsNever<T extends { query: infer Q } ? Q : never> extends true
-    ? IsNever<T extends { body: infer B } ? B : never> extends true
-      ? false
-      : true
-    : true
-  : true;
+// Error envelope sent by the backend for every non-2xx response
+export type ErrorBody = {
+  code: string;
+  message: string;
+};
+
+type IssuesOf<E> = E extends { issues: infer I } ? I : never;
+
+// Thrown by ApiClient.fetch for non-2xx responses, carrying the route's typed error envelope
+export class ApiError<E extends ErrorBody = ErrorBody> extends Error {
+  constructor(
+    readonly path: string,
+    readonly method: string,
+    readonly status: number,
+    readonly body: E,
+  ) {
+    super(body.message);
+    this.name = "ApiError";
+  }
+
+  get code(): E["code"] {
+    return this.body.code;
+  }
+
+  // Per-field validation issues, empty unless the request failed validation
+  get issues(): IssuesOf<E> | [] {
+    return "issues" in this.body ? this.body.issues as IssuesOf<E> : [];
+  }
+
+  // Seconds to wait before trying again, set when the route's rate limit was exceeded
+  get retryAfter(): number | undefined {
+    return "retryAfter" in this.body && typeof this.body.retryAfter === "number" ? this.body.retryAfter : undefined;
+  }
+}
+
+async function readErrorBody(response: Response): Promise<ErrorBody> {
+  const body: unknown = await response.json().catch(() => null);
+  if (typeof body === "object" && body !== null && "code" in body && "message" in body
+    && typeof body.code === "string" && typeof body.message === "string") {
+    return body as ErrorBody;
+  }
+  return { code: "HTTP_ERROR", message: `HTTP ${response.status}` };
+}
+
+export type RetryOptions = {
+  // Retries after the first attempt, only for idempotent methods; 0 disables retrying
+  attempts: number;
+  // Delay before the first retry in ms, doubled for each further one
+  baseDelay: number;
+  maxDelay: number;
+};
+
+// What interceptors see; `url` and `init` can be changed before the request is sent
+export type ApiRequest = {
+  path: string;
+  method: string;
+  url: string;
+  init: RequestInit & { headers: Headers };
+};
+
+export type ApiClientOptions = {
+  // Prepended to every path, e.g. the deployment URL outside the browser
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  // Run before every attempt, e.g. to attach a token
+  beforeRequest?: ((request: ApiRequest) => void | Promise<void>)[];
+  // Run on every response before it is checked; may return a replacement
+  afterResponse?: ((response: Response, request: ApiRequest) => Response | void | Promise<Response | void>)[];
+  // Per attempt, in ms until the response headers arrive; 0 waits forever
+  timeout?: number;
+  retry?: Partial<RetryOptions>;
+};
+
+// Per-call settings, passed next to params, query and body
+export type CallOptions = {
+  signal?: AbortSignal;
+  headers?: Record<string, string>;
+  timeout?: number;
+  retry?: Partial<RetryOptions>;
+};
+
+type FetchArgs<T extends Routes, P extends keyof T & string, M extends keyof T[P] & string> = HasRequired<T[P][M]> extends true
+  ? [path: P, method: M, options: FetchOptions<T[P][M]> & CallOptions]
+  : [path: P, method: M, options?: FetchOptions<T[P][M]> & CallOptions];
+
+type RequestArgs = [path: string, method: string, options?: CallOptions & {
+  params?: Record<string, string | number>;
+  query?: Record<string, unknown>;
+  body?: Record<string, unknown> | Blob;
+}];
+
+const DEFAULT_TIMEOUT = 30_000;
+const DEFAULT_RETRY: RetryOptions = { attempts: 2, baseDelay: 300, maxDelay: 5_000 };
+
+// Safe to send twice: a retry cannot apply the change again
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT", "DELETE", "OPTIONS"]);
+
+function buildPath(path: string, params: Record<string, string | number> | undefined, query: Record<string, unknown> | undefined): string {
+  // Replace path params
+  let url = path;
+  if (params) {
+    url = path.replace(/:(\w+)/g, (_, key: string) => {
+      const value = params[key];
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- runtime safety for missing params
+      if (value === undefined) throw new Error(`Missing param: ${key}`);
+      return encodeURIComponent(String(value));
+    });
+  }
+
+  // Add query string, in the encoding the backend's decodeQuery reads
+  const qs = query ? encodeQuery(query) : "";
+  if (qs) url += `?${qs}`;
+
+  return url;
+}
+
+// Exponential backoff with jitter, so clients that failed together do not retry together
+function backoff(retry: RetryOptions, attempt: number): number {
+  const delay = Math.min(retry.baseDelay * 2 ** attempt, retry.maxDelay);
+  return delay / 2 + Math.random() * delay / 2;
+}
+
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason as Error);
+      return;
+    }
+    // Removed once the delay passes, so a long-lived signal does not collect one listener per retry
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason as Error);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Parse a server-sent events body into `{ event, data }` messages.
+ * Only the fields the backend sends are handled: `event` and multi-line `data`.
+ */
+async function* parseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<{ event: string; data: string }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+
+      let end: number;
+      while ((end = buffer.indexOf("\n\n")) !== -1) {
+        const block = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+
+        let event = "message";
+        const data: string[] = [];
+        for (const line of block.split("\n")) {
+          if (line.startsWith("event:")) event = line.slice(6).trim();
+          if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""));
+        }
+        if (data.length > 0) yield { event, data: data.join("\n") };
+      }
+    }
+  } finally {
+    // Breaking out of `for await` closes the connection
+    await reader.cancel();
+  }
+}
 
 // API client class
 export class ApiClient<T extends Routes> {
+  constructor(private readonly options: ApiClientOptions = {}) {}
+
   async fetch<P extends keyof T & string, M extends keyof T[P] & string>(
-    ...args: HasRequired<T[P][M]> extends true
-      ? [path: P, method: M, options: FetchOptions<T[P][M]>]
-      : [path: P, method: M, options?: FetchOptions<T[P][M]>]
+    ...args: FetchArgs<T, P, M>
   ): Promise<T[P][M] extends { response: infer R } ? R : never> {
-    const [path, method, options] = args as [string, string, {
-      params?: Record<string, string | number>;
-      query?: Record<string, unknown>;
-      body?: Record<string, unknown>;
-    }?];
-
-    // Replace path params
-    let url = path;
-    if (options?.params) {
-      url = path.replace(/:(\w+)/g, (_, key: string) => {
-        const value = options.params![key];
-        // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- runtime safety for missing params
-        if (value === undefined) throw new Error(`Missing param: ${key}`);
-        return encodeURIComponent(String(value));
-      });
-    }
+    const response = await this.request(args as RequestArgs, "application/json");
+    return response.json() as Promise<T[P][M] extends { response: infer R } ? R : never>;
+  }
 
-    // Add query string
-    if (options?.query) {
-      const params = new URLSearchParams();
-      for (const [key, value] of Object.entries(options.query)) {
-        if (value !== undefined && value !== null) {
-          params.append(key, typeof value === "object" ? JSON.stringify(value) : `${value as string | number | boolean}`);
-        }
+  /**
+   * Subscribe to a streaming route, yielding its typed events until the server closes the stream.
+   * Failures, before or during the stream, throw `ApiError`. Wrap with rxjs `from()` for an Observable.
+   */
+  async* stream<P extends keyof T & string, M extends keyof T[P] & string>(
+    ...args: FetchArgs<T, P, M>
+  ): AsyncGenerator<T[P][M] extends { event: infer E } ? E : never, void, undefined> {
+    const [path, method] = args;
+    const response = await this.request(args as RequestArgs, "text/event-stream");
+    if (!response.body) return;
+
+    for await (const { event, data } of parseEvents(response.body)) {
+      if (event === "error") {
+        const { status, body } = JSON.parse(data) as { status: number; body: ErrorBody };
+        throw new ApiError(path, method, status, body);
       }
-      const qs = params.toString();
-      if (qs) url += `?${qs}`;
+      yield JSON.parse(data) as T[P][M] extends { event: infer E } ? E : never;
     }
+  }
 
-    const response = await fetch(url, {
-      method,
-      headers: { "Content-Type": "application/json" },
-      body: options?.body ? JSON.stringify(options.body) : undefined,
-    });
+  /**
+   * Send a request through the interceptors, retrying network failures, timeouts
+   * and 5xx responses of idempotent methods, and 429s whose Retry-After is within
+   * `maxDelay`. Non-2xx responses throw `ApiError`.
+   */
+  private async request([path, method, options = {}]: RequestArgs, accept: string): Promise<Response> {
+    const url = (this.options.baseUrl ?? "") + buildPath(path, options.params, options.query);
+    const { body, contentType } = encodeBody(options.body);
+    const timeout = options.timeout ?? this.options.timeout ?? DEFAULT_TIMEOUT;
+    const retry = { ...DEFAULT_RETRY, ...this.options.retry, ...options.retry };
+    const attempts = IDEMPOTENT_METHODS.has(method) ? retry.attempts : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      const headers = new Headers({ ...this.options.headers, ...options.headers });
+      headers.set("Accept", accept);
+      if (contentType) headers.set("Content-Type", contentType);
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: "Request failed" })) as { error?: string };
-      throw new Error(error.error ?? `HTTP ${response.status}`);
+      // Unlike AbortSignal.timeout, the timer stops once headers arrive, so streams can stay open
+      const timeoutController = new AbortController();
+      const timer = timeout > 0
+        ? setTimeout(() => timeoutController.abort(new DOMException(`Request timed out after ${timeout}ms`, "TimeoutError")), timeout)
+        : undefined;
+      const signal = options.signal ? AbortSignal.any([options.signal, timeoutController.signal]) : timeoutController.signal;
+
+      const request: ApiRequest = { path, method, url, init: { method, headers, body, signal } };
+      let response: Response;
+      try {
+        for (const interceptor of this.options.beforeRequest ?? []) await interceptor(request);
+        response = await fetch(request.url, request.init);
+      } catch (error) {
+        // The caller aborting is final; network failures and timeouts are worth another try
+        if (options.signal?.aborted || attempt >= attempts) throw error;
+        await sleep(backoff(retry, attempt), options.signal);
+        continue;
+      } finally {
+        clearTimeout(timer);
+      }
+
+      for (const interceptor of this.options.afterResponse ?? []) {
+        const replaced = await interceptor(response, request);
+        if (replaced) response = replaced;
+      }
+
+      if (response.status >= 500 && attempt < attempts) {
+        await response.body?.cancel();
+        await sleep(backoff(retry, attempt), options.signal);
+        continue;
+      }
+
+      const retryAfter = Number(response.headers.get("Retry-After")) * 1000;
+      if (response.status === 429 && attempt < attempts && retryAfter > 0 && retryAfter <= retry.maxDelay) {
+        await response.body?.cancel();
+        await sleep(retryAfter, options.signal);
+        continue;
+      }
+
+      if (!response.ok) {
+        throw new ApiError(path, method, response.status, await readErrorBody(response));
+      }
+      return response;
     }
+  }
 
-    return response.json() as Promise<T[P][M] extends { response: infer R } ? R : never>;
+  // Narrow a caught error to the typed errors of one route, then `switch (error.body.code)`
+  isError<P extends keyof T & string, M extends keyof T[P] & string>(
+    error: unknown,
+    path: P,
+    method: M,
+  ): error is ApiError<Extract<T[P][M]["error"], ErrorBody>> {
+    return error instanceof ApiError && error.path === path && error.method === method;
   }
 }
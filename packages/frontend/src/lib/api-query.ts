@@ -0,0 +1,288 @@
+import { use, useCallback, useEffect, useState, useSyncExternalStore } from "react";
+
+import type { ApiClient, ApiError, ErrorBody, FetchOptions, HasRequired, Routes } from "./api-client";
+
+type ResponseOf<R> = R extends { response: infer Res } ? Res : never;
+
+// Network failures are plain errors, everything the backend sends is a typed ApiError
+type ErrorOf<R> = ApiError<Extract<R extends { error: infer E } ? E : never, ErrorBody>> | Error;
+
+export type QueryKey = {
+  path: string;
+  method: string;
+  params?: unknown;
+  query?: unknown;
+};
+
+// Selects cached queries: a path, optionally narrowed by method and by a subset of params or query
+export type QueryFilter = Omit<QueryKey, "method"> & { method?: string };
+
+export type QueryState<D = unknown, E = unknown> = {
+  status: "pending" | "success" | "error";
+  data: D | undefined;
+  error: E | undefined;
+  // A request is in flight, including background refetches of cached data
+  isFetching: boolean;
+};
+
+type CacheEntry = {
+  hash: string;
+  key: QueryKey;
+  state: QueryState;
+  promise?: Promise<unknown>;
+  fetchedAt: number;
+  invalidated: boolean;
+  listeners: Set<() => void>;
+  gcTimer?: ReturnType<typeof setTimeout>;
+};
+
+const INITIAL_STATE: QueryState = { status: "pending", data: undefined, error: undefined, isFetching: false };
+
+const noop = () => {};
+
+// JSON with sorted object keys, so { a, b } and { b, a } hash the same
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_, v: unknown) =>
+    typeof v === "object" && v !== null && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : typeof v === "bigint" ? v.toString() : v);
+}
+
+// Every field of `filter` has the same value in `value`
+function matchesSubset(filter: unknown, value: unknown): boolean {
+  if (filter === undefined) return true;
+  if (typeof filter !== "object" || filter === null) return stableStringify(filter) === stableStringify(value);
+  const target = (value ?? {}) as Record<string, unknown>;
+  return Object.entries(filter).every(([key, v]) => stableStringify(v) === stableStringify(target[key]));
+}
+
+/**
+ * Responses cached by path, method, params and query.
+ * Concurrent loads of one key share a single request, and invalidated
+ * entries refetch right away while a component is subscribed to them.
+ * Entries nobody subscribes to are dropped after `gcTime`.
+ */
+export class QueryCache {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(
+    private readonly fetcher: (key: QueryKey) => Promise<unknown>,
+    // How long a response is served without refetching; 0 refetches whenever a component mounts
+    private readonly staleTime = 0,
+    // How long an entry without subscribers is kept, e.g. to show it again on back navigation
+    private readonly gcTime = 5 * 60_000,
+  ) {}
+
+  // The canonical key object for these values, stable across renders for use in hook dependencies
+  intern(key: QueryKey): QueryKey {
+    return this.entry(key).key;
+  }
+
+  getState(key: QueryKey): QueryState {
+    return this.entries.get(stableStringify(key))?.state ?? INITIAL_STATE;
+  }
+
+  subscribe(key: QueryKey, listener: () => void): () => void {
+    const entry = this.entry(key);
+    entry.listeners.add(listener);
+    clearTimeout(entry.gcTimer);
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size === 0) this.scheduleGc(entry);
+    };
+  }
+
+  // Resolve with cached data while it is fresh, otherwise fetch (joining a request already in flight)
+  load(key: QueryKey): Promise<unknown> {
+    const entry = this.entry(key);
+    if (entry.promise && (entry.state.isFetching || (entry.state.status === "success" && !this.isStale(entry)))) {
+      return entry.promise;
+    }
+    return this.fetch(key);
+  }
+
+  fetch(key: QueryKey): Promise<unknown> {
+    const entry = this.entry(key);
+    if (entry.promise && entry.state.isFetching) return entry.promise;
+
+    const promise = this.fetcher(entry.key).then(
+      (data) => {
+        entry.fetchedAt = Date.now();
+        entry.invalidated = false;
+        this.update(entry, { status: "success", data, error: undefined, isFetching: false });
+        return data;
+      },
+      (error: unknown) => {
+        this.update(entry, { status: "error", error, isFetching: false });
+        throw error;
+      },
+    );
+    entry.promise = promise;
+    this.update(entry, { isFetching: true });
+    return promise;
+  }
+
+  setData(key: QueryKey, data: unknown): void {
+    const entry = this.entry(key);
+    entry.promise = Promise.resolve(data);
+    entry.fetchedAt = Date.now();
+    entry.invalidated = false;
+    this.update(entry, { status: "success", data, error: undefined });
+  }
+
+  // Mark matching entries stale; resolves once the ones components are showing have refetched
+  async invalidate(filter: QueryFilter): Promise<void> {
+    const refetches: Promise<unknown>[] = [];
+    for (const entry of this.entries.values()) {
+      const { key } = entry;
+      if (key.path !== filter.path || (filter.method !== undefined && key.method !== filter.method)) continue;
+      if (!matchesSubset(filter.params, key.params) || !matchesSubset(filter.query, key.query)) continue;
+
+      entry.invalidated = true;
+      if (entry.listeners.size > 0) refetches.push(this.fetch(key).catch(noop));
+    }
+    await Promise.all(refetches);
+  }
+
+  private entry(key: QueryKey): CacheEntry {
+    const hash = stableStringify(key);
+    let entry = this.entries.get(hash);
+    if (!entry) {
+      entry = { hash, key, state: INITIAL_STATE, fetchedAt: 0, invalidated: false, listeners: new Set() };
+      this.entries.set(hash, entry);
+      this.scheduleGc(entry);
+    }
+    return entry;
+  }
+
+  // Requests in flight keep their entry, so a suspended component finds it when it retries
+  private scheduleGc(entry: CacheEntry): void {
+    clearTimeout(entry.gcTimer);
+    if (!Number.isFinite(this.gcTime)) return;
+    entry.gcTimer = setTimeout(() => {
+      if (entry.listeners.size > 0) return;
+      if (entry.state.isFetching) this.scheduleGc(entry);
+      else this.entries.delete(entry.hash);
+    }, this.gcTime);
+  }
+
+  private isStale(entry: CacheEntry): boolean {
+    return entry.invalidated || Date.now() - entry.fetchedAt >= this.staleTime;
+  }
+
+  // States are replaced, never mutated, so each one is a valid useSyncExternalStore snapshot
+  private update(entry: CacheEntry, patch: Partial<QueryState>): void {
+    entry.state = { ...entry.state, ...patch };
+    for (const listener of entry.listeners) listener();
+  }
+}
+
+type QueryOptions = {
+  // Set to false to hold the request, e.g. until a param is known
+  enabled?: boolean;
+};
+
+// Options are optional when the route needs no params, query or body
+type QueryArgs<R, Extra> = HasRequired<R> extends true
+  ? [options: FetchOptions<R> & Extra]
+  : [options?: FetchOptions<R> & Extra];
+
+type MutationState<D, E> = {
+  status: "idle" | "pending" | "success" | "error";
+  data: D | undefined;
+  error: E | undefined;
+};
+
+/**
+ * Typed React hooks over an ApiClient, sharing one response cache.
+ *
+ *   export const { useApiQuery, useApiMutation } = createApiHooks(new ApiClient<ApiRoutes>());
+ */
+export function createApiHooks<T extends Routes>(client: ApiClient<T>, options: { staleTime?: number; gcTime?: number } = {}) {
+  // Keys are checked by the hooks' signatures, so requests are made untyped here
+  const fetchRoute = client.fetch.bind(client) as (...args: unknown[]) => Promise<unknown>;
+  const cache = new QueryCache(({ path, method, params, query }) => fetchRoute(path, method, { params, query }), options.staleTime, options.gcTime);
+
+  function useQueryKey(path: string, method: string, options: { params?: unknown; query?: unknown } | undefined) {
+    const key = cache.intern({ path, method, params: options?.params, query: options?.query });
+    const state = useSyncExternalStore(
+      useCallback((listener: () => void) => cache.subscribe(key, listener), [key]),
+      () => cache.getState(key),
+    );
+    return { key, state, refetch: useCallback(() => cache.fetch(key), [key]) };
+  }
+
+  function useApiQuery<P extends keyof T & string, M extends keyof T[P] & string>(
+    path: P,
+    method: M,
+    ...[options]: QueryArgs<T[P][M], QueryOptions>
+  ) {
+    const { enabled = true } = (options ?? {}) as QueryOptions;
+    const { key, state, refetch } = useQueryKey(path, method, options as { params?: unknown; query?: unknown } | undefined);
+
+    useEffect(() => {
+      if (enabled) cache.load(key).catch(noop);
+    }, [key, enabled]);
+
+    return { ...state as QueryState<ResponseOf<T[P][M]>, ErrorOf<T[P][M]>>, refetch };
+  }
+
+  // Suspends until the first response; errors are thrown to the nearest error boundary
+  function useApiSuspenseQuery<P extends keyof T & string, M extends keyof T[P] & string>(
+    path: P,
+    method: M,
+    ...[options]: QueryArgs<T[P][M], unknown>
+  ) {
+    const { key, state, refetch } = useQueryKey(path, method, options as { params?: unknown; query?: unknown } | undefined);
+
+    // Cached data renders immediately and refreshes in the background once stale
+    useEffect(() => {
+      cache.load(key).catch(noop);
+    }, [key]);
+
+    if (state.status === "error") throw state.error;
+    const data = state.status === "success" ? state.data : use(cache.load(key));
+    return { data: data as ResponseOf<T[P][M]>, isFetching: state.isFetching, refetch };
+  }
+
+  function useApiMutation<P extends keyof T & string, M extends keyof T[P] & string>(
+    path: P,
+    method: M,
+    mutationOptions: {
+      // Paths whose cached queries refetch after a successful mutation
+      invalidates?: (keyof T & string)[];
+      onSuccess?: (data: ResponseOf<T[P][M]>) => void;
+    } = {},
+  ) {
+    const [state, setState] = useState<MutationState<ResponseOf<T[P][M]>, ErrorOf<T[P][M]>>>(
+      { status: "idle", data: undefined, error: undefined },
+    );
+
+    async function mutate(...[options]: QueryArgs<T[P][M], unknown>): Promise<ResponseOf<T[P][M]>> {
+      setState({ status: "pending", data: undefined, error: undefined });
+      try {
+        const data = await fetchRoute(path, method, options) as ResponseOf<T[P][M]>;
+        setState({ status: "success", data, error: undefined });
+        await Promise.all((mutationOptions.invalidates ?? []).map((invalidated) => cache.invalidate({ path: invalidated, method: "GET" })));
+        mutationOptions.onSuccess?.(data);
+        return data;
+      } catch (error) {
+        setState({ status: "error", data: undefined, error: error as ErrorOf<T[P][M]> });
+        throw error;
+      }
+    }
+
+    const reset = () => setState({ status: "idle", data: undefined, error: undefined });
+    return { ...state, mutate, reset };
+  }
+
+  // Refetch cached queries of a path, optionally only those matching some params or query values
+  function invalidate<P extends keyof T & string>(
+    path: P,
+    filter: { method?: keyof T[P] & string; params?: Partial<Record<string, unknown>>; query?: Partial<Record<string, unknown>> } = {},
+  ): Promise<void> {
+    return cache.invalidate({ path, ...filter });
+  }
+
+  return { cache, useApiQuery, useApiSuspenseQuery, useApiMutation, invalidate };
+}
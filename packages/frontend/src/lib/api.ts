@@ -0,0 +1,8 @@
+import type { ApiRoutes } from "@backend/api";
+
+import { ApiClient } from "./api-client";
+import { createApiHooks } from "./api-query";
+
+export const api = new ApiClient<ApiRoutes>();
+
+export const { useApiQuery, useApiSuspenseQuery, useApiMutation, invalidate } = createApiHooks(api, { staleTime: 30_000 });
@@ -0,0 +1,25 @@
+import { api, invalidate, useApiQuery } from "./api";
+
+/** The signed-in user, or null once the session is known to be missing or expired */
+export function useSession() {
+  const { data, status, error, refetch } = useApiQuery("/api/auth/session", "GET");
+  return { session: data ?? null, user: data?.user ?? null, status, error, refetch };
+}
+
+export function signInUrl(provider: string, options: { callbackURL?: string; loginHint?: string } = {}): string {
+  const query = new URLSearchParams();
+  if (options.callbackURL) query.set("callbackURL", options.callbackURL);
+  if (options.loginHint) query.set("loginHint", options.loginHint);
+  const qs = query.toString();
+  return `/api/auth/sign-in/${encodeURIComponent(provider)}${qs ? `?${qs}` : ""}`;
+}
+
+// Sign-in is a full-page round trip through the provider, ending back on `callbackURL` (default: this page)
+export function signIn(provider: string, options: { callbackURL?: string; loginHint?: string } = {}): void {
+  window.location.assign(signInUrl(provider, { callbackURL: window.location.pathname + window.location.search, ...options }));
+}
+
+export async function signOut(): Promise<void> {
+  await api.fetch("/api/auth/sign-out", "POST");
+  await invalidate("/api/auth/session");
+}
@@ -2,13 +2,26 @@ import fs from "fs";
 import path from "path";
 import { z } from "zod";
 
+// A redirect to another subdomain; by default a 301 cached for an hour that keeps the path and query
+const subdomainRedirect = z.object({
+  redirect: z.string(),
+  status: z.union([z.literal(301), z.literal(302), z.literal(307), z.literal(308)]).optional(),
+  // Seconds browsers and CloudFront may cache the redirect
+  maxAge: z.number().int().nonnegative().optional(),
+  keepPath: z.boolean().optional(),
+  keepQuery: z.boolean().optional(),
+  // Prepended to the path on the target, e.g. "/docs"
+  pathPrefix: z.string().regex(/^(\/[^/?#]+)+$/, "must start with / and not end with /").optional(),
+}).strict();
+
 // Subdomain mapping value: deployment name, null (blocked), or redirect
 const subdomainMapValue = z.union([
   z.string(),
   z.null(),
-  z.object({ redirect: z.string() }),
+  subdomainRedirect,
 ]);
 
+export type SubdomainRedirect = z.infer<typeof subdomainRedirect>;
 export type SubdomainMapValue = z.infer<typeof subdomainMapValue>;
 
 const configSchema = z.object({
@@ -25,6 +38,13 @@ const configSchema = z.object({
   domain: z.string().optional(),
   hostedZoneId: z.string().optional(),
   subdomainMap: z.record(z.string(), subdomainMapValue),
+  // Branch previews behind a login, see README "Preview protection"
+  previewProtection: z.object({
+    // true protects, false exempts; keys are subdomains or patterns, as in subdomainMap
+    subdomains: z.record(z.string(), z.boolean()),
+    // Seconds a login lasts
+    maxAge: z.number().int().positive().default(7 * 24 * 60 * 60),
+  }).strict().optional(),
 }).refine(
   (cfg) => !cfg.domain || !!cfg.hostedZoneId,
   { message: "hostedZoneId is required when domain is set", path: ["hostedZoneId"] },
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+
+import { formatLogEntry, logFilterPattern, parseLogEntry } from "./logs.js";
+
+describe("logFilterPattern", () => {
+  it("selects everything without filters", () => {
+    expect(logFilterPattern({})).toBeUndefined();
+  });
+
+  it("combines filters, with a level including more severe ones", () => {
+    expect(logFilterPattern({ requestId: "r-1", level: "warn", route: "/api/gardens/*" })).toBe(
+      '{ $.requestId = "r-1" && ($.level = "warn" || $.level = "error") && $.route = "/api/gardens/*" }',
+    );
+  });
+});
+
+describe("parseLogEntry", () => {
+  it("reads JSON lines, also after a Lambda prefix", () => {
+    const line = JSON.stringify({ level: "info", message: "Request", requestId: "r-1" });
+    expect(parseLogEntry(line)).toEqual({ level: "info", message: "Request", requestId: "r-1" });
+    expect(parseLogEntry(`2026-01-01T00:00:00.000Z\tabc\tINFO\t${line}`)).toMatchObject({ requestId: "r-1" });
+  });
+
+  it("ignores other lines", () => {
+    expect(parseLogEntry("START RequestId: abc")).toBeUndefined();
+    expect(parseLogEntry('{"hello":"world"}')).toBeUndefined();
+  });
+});
+
+describe("formatLogEntry", () => {
+  it("puts the request first and the request id last", () => {
+    expect(formatLogEntry({
+      level: "info",
+      message: "Request",
+      requestId: "r-1",
+      method: "GET",
+      path: "/api/gardens/1",
+      route: "/api/gardens/:id",
+      status: 200,
+      durationMs: 12,
+      branch: "main",
+    })).toBe("INFO   Request  GET /api/gardens/:id  200  12ms  branch=main  [r-1]");
+  });
+
+  it("indents error stacks below the line", () => {
+    expect(formatLogEntry({ level: "error", message: "Request failed", error: { message: "boom", stack: "Error: boom\n  at x" } }))
+      .toBe("ERROR  Request failed\n    Error: boom\n      at x");
+  });
+});
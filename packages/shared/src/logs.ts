@@ -0,0 +1,79 @@
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/**
+ * One JSON line of log output, as the backend and the origin-request function write it.
+ * Request entries also carry `method`, `path`, `route`, `status`, `durationMs` and `branch`.
+ */
+export type LogEntry = {
+  level: LogLevel;
+  message: string;
+  requestId?: string;
+  [field: string]: unknown;
+};
+
+export interface LogFilter {
+  requestId?: string;
+  // This level and more severe ones
+  level?: LogLevel;
+  // A route pattern, e.g. "/api/gardens/:id"; `*` matches anything
+  route?: string;
+  // The request path, for entries without a route such as the edge's
+  path?: string;
+}
+
+export function isLogLevel(value: string): value is LogLevel {
+  return (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+/**
+ * CloudWatch Logs filter pattern for the entries a filter selects, undefined when it selects everything.
+ * Lines that are not JSON never match a JSON pattern.
+ */
+export function logFilterPattern(filter: LogFilter): string | undefined {
+  const terms: string[] = [];
+  if (filter.requestId) terms.push(`$.requestId = ${JSON.stringify(filter.requestId)}`);
+  if (filter.level) {
+    const levels = LOG_LEVELS.slice(LOG_LEVELS.indexOf(filter.level));
+    terms.push(`(${levels.map((level) => `$.level = "${level}"`).join(" || ")})`);
+  }
+  if (filter.route) terms.push(`$.route = ${JSON.stringify(filter.route)}`);
+  if (filter.path) terms.push(`$.path = ${JSON.stringify(filter.path)}`);
+  return terms.length > 0 ? `{ ${terms.join(" && ")} }` : undefined;
+}
+
+/**
+ * Read a log message as an entry. Lambda prefixes console output with a
+ * timestamp and its own request id, so the JSON may start mid-line.
+ */
+export function parseLogEntry(message: string): LogEntry | undefined {
+  const start = message.indexOf("{");
+  if (start === -1) return undefined;
+  try {
+    const value: unknown = JSON.parse(message.slice(start));
+    if (typeof value !== "object" || value === null) return undefined;
+    const { level, message: text } = value as Record<string, unknown>;
+    return typeof level === "string" && isLogLevel(level) && typeof text === "string" ? value as LogEntry : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// INFO   Request  GET /api/gardens/:id  200  12ms  branch=main  [1a2b3c]
+export function formatLogEntry(entry: LogEntry): string {
+  const { level, message, requestId, method, path, route, status, durationMs, error, ...rest } = entry;
+  const parts = [level.toUpperCase().padEnd(5), message];
+  if (typeof method === "string") parts.push(`${method} ${String(route ?? path)}`);
+  if (status !== undefined) parts.push(String(status));
+  if (durationMs !== undefined) parts.push(`${String(durationMs)}ms`);
+  for (const [key, value] of Object.entries(rest)) {
+    if (value !== undefined) parts.push(`${key}=${typeof value === "string" ? value : JSON.stringify(value)}`);
+  }
+  if (requestId) parts.push(`[${requestId}]`);
+
+  const line = parts.join("  ");
+  const stack = typeof error === "object" && error !== null && "stack" in error ? error.stack : undefined;
+  if (typeof stack === "string") return `${line}\n${stack.replace(/^/gm, "    ")}`;
+  return error === undefined ? line : `${line}  error=${JSON.stringify(error)}`;
+}
@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest";
+
+import { parseOriginSecrets } from "./origin-secret.js";
+
+describe("parseOriginSecrets", () => {
+  it("lists the current secret first", () => {
+    expect(parseOriginSecrets("new, old")).toEqual(["new", "old"]);
+  });
+
+  it("ignores empty entries", () => {
+    expect(parseOriginSecrets("only,")).toEqual(["only"]);
+  });
+});
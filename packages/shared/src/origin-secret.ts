@@ -0,0 +1,14 @@
+import type { TssConfig } from "./config.js";
+
+// Sent by the edge on every request to the backend Function URL, which rejects requests without it
+export const ORIGIN_SECRET_HEADER = "x-origin-verify";
+
+// The parameter holds "current" or "current,previous": the edge sends the first, the backend accepts either
+export function parseOriginSecrets(value: string): string[] {
+  return value.split(",").map((secret) => secret.trim()).filter(Boolean);
+}
+
+// Dev only: the edge proxy and the backend dev server derive the same secret instead of reading SSM
+export function devOriginSecret({ project, dev }: Pick<TssConfig, "project" | "dev">): string {
+  return `dev-${project}-${dev.worktree}`;
+}
@@ -0,0 +1,21 @@
+import type { CompiledSubdomainMap } from "./subdomain-map.js";
+
+// The login page sends credentials here; a 204 sets the preview cookie
+export const PREVIEW_LOGIN_PATH = "/__preview/login";
+
+/**
+ * What the viewer-request function gets at build time to enforce
+ * config.previewProtection. Holds no passwords, only salted hashes.
+ */
+export interface PreviewProtection {
+  // Whether a subdomain is protected
+  subdomains: CompiledSubdomainMap<boolean>;
+  salt: string;
+  // SHA-256 hex of "{salt}:{user}:{password}" per credential
+  credentials: string[];
+  cookieName: string;
+  // HMAC-SHA256 key for the cookie, derived from the credentials so changing them signs everyone out
+  cookieKey: string;
+  // Seconds a login lasts
+  maxAge: number;
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+
+import { encodeQuery } from "./query-encoding.js";
+
+describe("encodeQuery", () => {
+  it("repeats array keys and brackets object keys", () => {
+    expect(encodeQuery({ tags: ["a", "b"], filter: { size: { min: 1 } } })).toBe("tags=a&tags=b&filter%5Bsize%5D%5Bmin%5D=1");
+  });
+
+  it("writes dates as ISO strings and objects inside arrays as JSON", () => {
+    expect(encodeQuery({ at: new Date(0), items: [{ id: 1 }] })).toBe("at=1970-01-01T00%3A00%3A00.000Z&items=%7B%22id%22%3A1%7D");
+  });
+
+  it("omits undefined, null and empty arrays", () => {
+    expect(encodeQuery({ a: undefined, b: null, tags: [], page: 0, draft: false })).toBe("page=0&draft=false");
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Query strings carry only strings, so ApiClient, createCaller and the
+ * backend's decodeQuery agree on one encoding:
+ *
+ *   { tags: ["a", "b"] }            → tags=a&tags=b
+ *   { page: 2, draft: true }        → page=2&draft=true
+ *   { filter: { size: 3 } }         → filter[size]=3
+ *   { at: new Date(0) }             → at=1970-01-01T00:00:00.000Z
+ *   { items: [{ id: 1 }] }          → items={"id":1}
+ *
+ * `undefined`, `null` and empty arrays are omitted. An empty list therefore
+ * decodes as `[]` when the query schema requires the list, and as `undefined`
+ * when it is optional.
+ */
+export function encodeQuery(query: Record<string, unknown>): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    appendQuery(params, key, value);
+  }
+  return params.toString();
+}
+
+function appendQuery(params: URLSearchParams, key: string, value: unknown, inArray = false): void {
+  if (value === undefined || value === null) return;
+  if (value instanceof Date) {
+    params.append(key, value.toISOString());
+  } else if (inArray && typeof value === "object") {
+    params.append(key, JSON.stringify(value));
+  } else if (Array.isArray(value)) {
+    for (const item of value) appendQuery(params, key, item, true);
+  } else if (typeof value === "object") {
+    for (const [childKey, child] of Object.entries(value)) appendQuery(params, `${key}[${childKey}]`, child);
+  } else {
+    params.append(key, `${value as string | number | boolean | bigint}`);
+  }
+}
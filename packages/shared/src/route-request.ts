@@ -0,0 +1,51 @@
+/**
+ * What ApiClient and createCaller send for a route: the options a call takes
+ * and how its body goes over the wire, so both clients talk to routes alike.
+ */
+
+// Check if a type is never
+type IsNever<T> = [T] extends [never] ? true : false;
+
+// Build options type based on what the route needs
+export type FetchOptions<T> = (IsNever<T extends { params: infer P } ? P : never> extends true
+  ? unknown
+  : { params: T extends { params: infer P } ? P : never }) &
+  (IsNever<T extends { query: infer Q } ? Q : never> extends true
+    ? unknown
+    : { query: T extends { query: infer Q } ? Q : never }) &
+    (IsNever<T extends { body: infer B } ? B : never> extends true
+      ? unknown
+      : { body: T extends { body: infer B } ? B : never });
+
+// Check if options are required
+export type HasRequired<T> = IsNever<T extends { params: infer P } ? P : never> extends true
+  ? IsNever<T extends { query: infer Q } ? Q : never> extends true
+    ? IsNever<T extends { body: infer B } ? B : never> extends true
+      ? false
+      : true
+    : true
+  : true;
+
+/**
+ * Binary routes take a Blob as is, bodies with files become multipart,
+ * everything else is JSON. No body means no Content-Type; multipart has none
+ * either, as fetch sets it with the boundary.
+ */
+export function encodeBody(body: Record<string, unknown> | Blob | undefined): { body?: BodyInit; contentType?: string } {
+  if (body === undefined) return {};
+  if (body instanceof Blob) return { body, contentType: body.type || "application/octet-stream" };
+
+  const values = Object.values(body).flat();
+  if (!values.some((value) => value instanceof Blob)) {
+    return { body: JSON.stringify(body), contentType: "application/json" };
+  }
+
+  const form = new FormData();
+  for (const [key, value] of Object.entries(body)) {
+    for (const item of Array.isArray(value) ? value as unknown[] : [value]) {
+      if (item === undefined || item === null) continue;
+      form.append(key, item instanceof Blob ? item : typeof item === "object" ? JSON.stringify(item) : `${item as string | number | boolean}`);
+    }
+  }
+  return { body: form };
+}
@@ -1,3 +1,11 @@
 export function backendUrlName({ project, sanitizedBranchName }: { project: string, sanitizedBranchName: string }) {
   return `/${project}/backend/${sanitizedBranchName}`;
-}
\ No newline at end of file
+}
+
+export function originSecretName({ project }: { project: string }) {
+  return `/${project}/edge/origin-secret`;
+}
+
+export function authSecretName({ project }: { project: string }) {
+  return `/${project}/auth-secret`;
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+
+import { compileSubdomainMap, fillWildcard, lookupSubdomain } from "./subdomain-map.js";
+
+describe("compileSubdomainMap", () => {
+  it("splits patterns around the * and orders them most specific first", () => {
+    expect(compileSubdomainMap({ "www": "main", "*": null, "pr-*": "pr-*", "*.staging": "staging" })).toEqual({
+      exact: { www: "main" },
+      patterns: [["", ".staging", "staging"], ["pr-", "", "pr-*"], ["", "", null]],
+    });
+  });
+});
+
+describe("lookupSubdomain", () => {
+  const compiled = compileSubdomainMap({
+    "internal": "main",
+    "internal-*": null,
+    "*-api": "api",
+    "pr-*": "pr-*",
+    "*.staging": "staging",
+    "*": { redirect: "www" },
+  });
+
+  const cases: [subdomain: string, value: unknown, capture: string][] = [
+    ["internal", "main", ""],
+    // More literal characters win: "internal-" over "-api"
+    ["internal-api", null, "api"],
+    ["billing-api", "api", "billing"],
+    ["pr-42", "pr-*", "42"],
+    ["feature.staging", "staging", "feature"],
+    ["feature", { redirect: "www" }, "feature"],
+    // * matches at least one character and never a dot, except as the catch-all
+    ["pr-", { redirect: "www" }, "pr-"],
+    ["a.b.staging", { redirect: "www" }, "a.b.staging"],
+    ["", undefined, ""],
+  ];
+  for (const [subdomain, value, capture] of cases) {
+    it(`looks up ${JSON.stringify(subdomain)}`, () => {
+      expect(lookupSubdomain(compiled, subdomain)).toEqual({ value, capture });
+    });
+  }
+
+  it("leaves dotted subdomains unmatched without a catch-all", () => {
+    expect(lookupSubdomain(compileSubdomainMap({ "*.staging": "staging", "pr-*": "pr-*" }), "a.b.staging")).toEqual({ value: undefined, capture: "" });
+  });
+
+  it("does not match keys inherited from Object", () => {
+    expect(lookupSubdomain(compileSubdomainMap({}), "constructor")).toEqual({ value: undefined, capture: "" });
+  });
+});
+
+describe("fillWildcard", () => {
+  it("replaces every * with the capture", () => {
+    expect(fillWildcard("*.preview", "feature")).toBe("feature.preview");
+    expect(fillWildcard("main", "feature")).toBe("main");
+  });
+});
@@ -0,0 +1,56 @@
+import type { SubdomainMapValue } from "./config.js";
+
+// A subdomainMap key with a `*`, split around it: "pr-*" → ["pr-", "", value]
+export type SubdomainPattern<V = SubdomainMapValue> = [prefix: string, suffix: string, value: V];
+
+// Also used for other maps keyed by subdomain, e.g. previewProtection.subdomains
+export interface CompiledSubdomainMap<V = SubdomainMapValue> {
+  exact: Record<string, V>;
+  // Most specific first
+  patterns: SubdomainPattern<V>[];
+}
+
+export interface SubdomainMatch<V = SubdomainMapValue> {
+  value: V | undefined;
+  // The text the pattern's `*` matched, "" for exact keys
+  capture: string;
+}
+
+/**
+ * Split a subdomainMap into exact keys and patterns, so the viewer-request
+ * function looks keys up without building regexes. Patterns with more literal
+ * characters come first; equally specific ones keep their order in the map.
+ */
+export function compileSubdomainMap<V>(subdomainMap: Record<string, V>): CompiledSubdomainMap<V> {
+  const exact: Record<string, V> = {};
+  const patterns: SubdomainPattern<V>[] = [];
+  for (const [key, value] of Object.entries(subdomainMap)) {
+    const star = key.indexOf("*");
+    if (star === -1) exact[key] = value;
+    else patterns.push([key.slice(0, star), key.slice(star + 1), value]);
+  }
+  patterns.sort((a, b) => b[0].length + b[1].length - (a[0].length + a[1].length));
+  return { exact, patterns };
+}
+
+/**
+ * What a subdomain maps to: its exact key, else the first pattern whose `*`
+ * matches a non-empty part without dots. A bare `*` is the catch-all and
+ * matches any subdomain left, dots included. The viewer-request function has
+ * its own copy of this lookup in the syntax CloudFront Functions run.
+ */
+export function lookupSubdomain<V>(compiled: CompiledSubdomainMap<V>, subdomain: string): SubdomainMatch<V> {
+  if (Object.prototype.hasOwnProperty.call(compiled.exact, subdomain)) return { value: compiled.exact[subdomain], capture: "" };
+  for (const [prefix, suffix, value] of compiled.patterns) {
+    if (subdomain.length <= prefix.length + suffix.length) continue;
+    if (!subdomain.startsWith(prefix) || !subdomain.endsWith(suffix)) continue;
+    const capture = subdomain.slice(prefix.length, subdomain.length - suffix.length);
+    if (!capture.includes(".") || (prefix === "" && suffix === "")) return { value, capture };
+  }
+  return { value: undefined, capture: "" };
+}
+
+// A pattern's branch or redirect target with `*` replaced: "*" with capture "feature" → "feature"
+export function fillWildcard(value: string, capture: string): string {
+  return value.split("*").join(capture);
+}
@@ -54,6 +54,19 @@ describe("validateSubdomainMap", () => {
       expect(result.errors).toEqual([]);
     });
 
+    it("accepts patterns with precedence over a blocking catch-all", () => {
+      const result = validateSubdomainMap({
+        "": { redirect: "www" },
+        "www": "main",
+        "pr-*": "pr-*",
+        "*.staging": "staging",
+        "old-*": { redirect: "pr-*" },
+        "*": null,
+      });
+      expect(result.valid).toBe(true);
+      expect(result.errors).toEqual([]);
+    });
+
     it("accepts blocked subdomains", () => {
       const result = validateSubdomainMap({
         blocked: null,
@@ -87,6 +100,43 @@ describe("validateSubdomainMap", () => {
       );
     });
 
+    it("rejects cycle through patterns", () => {
+      const result = validateSubdomainMap({
+        "*.old": { redirect: "*.new" },
+        "*.new": { redirect: "*.old" },
+      });
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toBe("Cycle detected: {*}.old -> {*}.new -> {*}.old");
+    });
+
+    it("rejects redirect chain that grows without end", () => {
+      const result = validateSubdomainMap({
+        "*": { redirect: "x-*" },
+      });
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain("Redirect chain longer than 10");
+    });
+
+    it("rejects pattern redirect into a blocking pattern", () => {
+      const result = validateSubdomainMap({
+        "pr-*": { redirect: "internal-*" },
+        "internal-*": null,
+      });
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain("resolves to blocked");
+    });
+
+    it("rejects keys with more than one * and * in exact keys' values", () => {
+      const result = validateSubdomainMap({
+        "*-*": "main",
+        "www": "*",
+      });
+      expect(result.errors).toEqual([
+        'Pattern "*-*" has more than one *',
+        '"www" maps to "*", but only patterns can use *',
+      ]);
+    });
+
     it("rejects redirect to blocked subdomain", () => {
       const result = validateSubdomainMap({
         old: { redirect: "blocked" },
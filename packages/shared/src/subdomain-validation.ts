@@ -1,4 +1,5 @@
-import type { SubdomainMapValue, TssConfig } from "./config.js";
+import type { SubdomainMapValue, SubdomainRedirect, TssConfig } from "./config.js";
+import { compileSubdomainMap, fillWildcard, lookupSubdomain } from "./subdomain-map.js";
 
 export interface ValidationResult {
   valid: boolean;
@@ -8,23 +9,42 @@ export interface ValidationResult {
 /** Type guard for redirect entries */
 export function isRedirect(
   value: SubdomainMapValue
-): value is { redirect: string } {
+): value is SubdomainRedirect {
   return typeof value === "object" && value !== null && "redirect" in value;
 }
 
+// The viewer-request function follows at most this many redirects without a custom domain
+const MAX_REDIRECTS = 10;
+
+// Stands in for the text a pattern's `*` matches when following its redirects
+const WILDCARD = "{*}";
+
 /**
  * Validates subdomain map for cycles and invalid redirect chains.
  * Errors:
- * - Cycle detected (e.g., a -> b -> a)
+ * - Cycle detected (e.g., a -> b -> a), also through patterns (*.old -> *.new -> *.old)
  * - Redirect chain ends in blocked (null) subdomain
+ * - Redirect chain longer than the viewer-request function follows
+ * - Pattern with more than one `*`, or `*` in the value of an exact key
  */
 export function validateSubdomainMap(
   subdomainMap: TssConfig["subdomainMap"]
 ): ValidationResult {
   const errors: string[] = [];
+  const compiled = compileSubdomainMap(subdomainMap);
+
+  for (const [subdomain, value] of Object.entries(subdomainMap)) {
+    const wildcards = subdomain.split("*").length - 1;
+    const target = isRedirect(value) ? value.redirect : value;
+    if (wildcards > 1) {
+      errors.push(`Pattern "${subdomain}" has more than one *`);
+    } else if (wildcards === 0 && target?.includes("*")) {
+      errors.push(`"${subdomain}" maps to "${target}", but only patterns can use *`);
+    }
+  }
 
   /**
-   * Resolves a subdomain following redirect chains.
+   * Resolves a subdomain following redirect chains, the way the viewer-request function looks it up.
    * Returns the final deployment name, null if blocked, or undefined if cycle detected.
    */
   function resolve(
@@ -37,8 +57,12 @@ export function validateSubdomainMap(
       errors.push(`Cycle detected: ${[...path, subdomain].join(" -> ")}`);
       return undefined;
     }
+    if (path.length >= MAX_REDIRECTS) {
+      errors.push(`Redirect chain longer than ${MAX_REDIRECTS}: ${[...path, subdomain].join(" -> ")}`);
+      return undefined;
+    }
 
-    const value = subdomainMap[subdomain];
+    const { value, capture } = lookupSubdomain(compiled, subdomain);
 
     // Undefined = pass-through (use subdomain as deployment name)
     if (value === undefined) {
@@ -52,13 +76,13 @@ export function validateSubdomainMap(
 
     // String = direct deployment mapping
     if (typeof value === "string") {
-      return value;
+      return fillWildcard(value, capture);
     }
 
     // Redirect - follow the chain
     if (isRedirect(value)) {
       visited.add(subdomain);
-      return resolve(value.redirect, visited, [...path, subdomain]);
+      return resolve(fillWildcard(value.redirect, capture), visited, [...path, subdomain]);
     }
 
     return undefined;
@@ -69,8 +93,8 @@ export function validateSubdomainMap(
     const value = subdomainMap[subdomain];
 
     if (isRedirect(value)) {
-      const target = value.redirect;
-      const finalResult = resolve(target, new Set([subdomain]), [subdomain]);
+      // A pattern is followed for a subdomain it matches, e.g. "*.old" as "{*}.old"
+      const finalResult = resolve(subdomain.replace("*", WILDCARD), new Set(), []);
 
       // Redirect to blocked is an error
       if (finalResult === null) {
@@ -31,11 +31,11 @@ function printAvailable() {
 }
 
 export const run = new Command("Run an e2e test from ./e2e/<name>.ts (no name = list)",
-  z.tuple([z.string().describe("name").optional()]),
-  async (name) => {
+  z.tuple([z.string().describe("name").optional(), z.literal("--contract").describe("--contract").optional()]),
+  async (name, contract) => {
     if (!name) {
       printAvailable();
-      console.log("\nrun: npm run e2e <name>");
+      console.log("\nrun: npm run e2e <name> [--contract]");
       return;
     }
 
@@ -55,8 +55,16 @@ export const run = new Command("Run an e2e test from ./e2e/<name>.ts (no name =
     page.on("console", (msg) => console.log(`    [browser:${msg.type()}] ${msg.text()}`));
     page.on("pageerror", (err) => console.error(`    [browser:error] ${err.message}`));
 
+    // Contract mode checks every backend response against its route's schemas (see e2e/_helpers.ts)
+    let checkContract = async () => {};
+    if (contract) {
+      process.env.E2E_CONTRACT = "1";
+      const helpers = await import(pathToFileURL(path.join(E2E_DIR, "_helpers.ts")).href);
+      checkContract = helpers.watchContract(page);
+    }
+
     const t0 = Date.now();
-    console.log(`> ${name}`);
+    console.log(`> ${name}${contract ? "  (contract)" : ""}`);
     try {
       const mod = await import(pathToFileURL(file).href);
       const fn = mod.default;
@@ -64,6 +72,7 @@ export const run = new Command("Run an e2e test from ./e2e/<name>.ts (no name =
         throw new Error(`e2e/${name}.ts must default-export a Scenario`);
       }
       await fn({ page, request: context.request });
+      await checkContract();
       console.log(`PASS  ${name}  (${Date.now() - t0}ms)`);
     } catch (err) {
       console.error(`FAIL  ${name}  (${Date.now() - t0}ms)`);